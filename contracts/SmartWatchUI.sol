@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract SmartWatchUI is SepoliaConfig {
@@ -9,118 +9,565 @@ contract SmartWatchUI is SepoliaConfig {
         address user;
         euint32 encryptedActivityPattern; // Encrypted activity pattern
         euint32 encryptedNotificationPref; // Encrypted notification preferences
+        euint32 encryptedStepCount; // Encrypted daily step count
+        euint32 encryptedRestingHeartRate; // Encrypted resting heart rate (bpm)
+        euint32 encryptedSleepDuration; // Encrypted sleep duration (minutes)
         uint256 timestamp;
     }
     
+    // Multipliers applied to each profile signal, in SIGNAL_WEIGHT_SCALE units
+    struct SignalWeights {
+        uint32 activity;
+        uint32 notifications;
+        uint32 steps;
+        uint32 restingHeartRate;
+        uint32 sleep;
+        uint32 appInteractions;
+    }
+    
     struct EncryptedUILayout {
-        euint32 encryptedLayoutConfig; // Encrypted UI layout configuration
+        euint64 encryptedLayoutConfig; // Encrypted UI layout configuration
         bool isComputed;
+        uint256 version; // Latest entry in the user's layout history
+    }
+    
+    struct LayoutVersion {
+        euint64 encryptedLayoutConfig;
+        uint256 timestamp;
+        string[] components; // Catalog snapshot the packed priorities refer to
     }
     
     struct DecryptedLayout {
-        string layoutData;
+        uint256 version; // Layout version the priorities were revealed for
+        uint8[] priorities; // Priority of each component, in snapshot order
         bool isRevealed;
     }
+    
+    enum DecryptionStatus { None, Pending, Fulfilled, Expired }
+    
+    struct DecryptionRequest {
+        uint256 requestId;
+        uint256 version; // Layout version the request decrypts
+        uint256 requestedAt;
+        DecryptionStatus status;
+    }
 
     // Contract state
     mapping(address => EncryptedUserProfile) public userProfiles;
     mapping(address => EncryptedUILayout) public uiLayouts;
     mapping(address => DecryptedLayout) public decryptedLayouts;
     
-    // UI component weights
-    mapping(string => euint32) private componentWeights;
+    // Ring buffer of each user's recent layouts, indexed by version
+    mapping(address => mapping(uint256 => LayoutVersion)) private layoutHistory;
+    uint256 public constant MAX_LAYOUT_HISTORY = 10;
+    
+    // Each new observation counts for 1/EMA_WEIGHT of the running profile
+    uint32 public constant EMA_WEIGHT = 4;
+    
+    // Per-app interaction counts, keyed by component name
+    mapping(address => mapping(string => euint32)) private appInteractions;
+    mapping(address => string[]) private interactionApps;
+    
+    // UI component catalog, managed by the owner
+    address public owner;
     string[] private componentList;
+    mapping(string => bool) private isComponent;
     
-    // Decryption tracking
+    // UI component weights, scoped per user
+    mapping(address => mapping(string => euint32)) private componentWeights;
+    
+    // Components with a dedicated profile signal
+    bytes32 private constant NOTIFICATIONS_COMPONENT = keccak256("notifications");
+    bytes32 private constant ACTIVITY_COMPONENT = keccak256("activity");
+    bytes32 private constant HEART_RATE_COMPONENT = keccak256("heartRate");
+    bytes32 private constant SLEEP_COMPONENT = keccak256("sleep");
+    
+    // How much each signal counts towards its component's score
+    SignalWeights public signalWeights;
+    uint32 public constant SIGNAL_WEIGHT_SCALE = 100;
+    
+    // Bits per component priority in the packed layout config. Priorities are
+    // stored minus one, so 4 bits hold priorities 1..16.
+    uint256 private constant PRIORITY_BITS = 4;
+    // Ranking compares every pair of components, so the catalog is capped at
+    // what computeUILayout can score and rank within the per-transaction HCU
+    // limit for a profile with every signal set; 9 components exceed it.
+    uint256 public constant MAX_COMPONENTS = 8;
+    
+    // Notification prioritization: per-app encrypted preference levels and the
+    // encrypted tier of the latest notification in each category
+    mapping(address => mapping(string => euint32)) private notificationPrefs;
+    mapping(address => mapping(string => euint8)) private notificationTiers;
+    uint32 public batchThreshold;
+    uint32 public immediateThreshold;
+    uint8 public constant TIER_SUPPRESS = 0;
+    uint8 public constant TIER_BATCH = 1;
+    uint8 public constant TIER_IMMEDIATE = 2;
+    
+    // Encrypted numeric values of each user's watch face configs, by face id.
+    // The config JSON itself lives in UniversalAdapter and refers to these handles.
+    mapping(address => mapping(string => euint32[])) private watchFaceValues;
+    
+    // Decryption tracking; requestToUser only holds requests still awaiting a callback
+    mapping(address => DecryptionRequest) public decryptionRequests;
     mapping(uint256 => address) private requestToUser;
+    uint256 public constant DECRYPTION_TIMEOUT = 1 hours;
     
     // Events
     event ProfileUpdated(address indexed user);
-    event LayoutComputed(address indexed user);
-    event DecryptionRequested(address indexed user);
-    event LayoutRevealed(address indexed user);
+    event ProfileReset(address indexed user);
+    event LayoutComputed(address indexed user, uint256 version);
+    event DecryptionRequested(address indexed user, uint256 requestId);
+    event DecryptionCancelled(address indexed user, uint256 requestId);
+    event LayoutRevealed(address indexed user, uint256 version);
+    event ComponentWeightsReset(address indexed user);
+    event ComponentAdded(string name);
+    event ComponentRetired(string name);
+    event ComponentsReordered();
+    event SignalWeightsUpdated();
+    event NotificationPreferencesUpdated(address indexed user);
+    event NotificationThresholdsUpdated(uint32 batchThreshold, uint32 immediateThreshold);
+    event NotificationClassified(address indexed user, string category);
+    event WatchFaceValuesStored(address indexed user, string faceId, uint256 count);
 
-    /// @notice Initialize UI component weights
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    /// @notice Initialize the default UI component catalog
     constructor() {
-        componentList = ["clock", "notifications", "activity", "weather", "calendar"];
-        for (uint i = 0; i < componentList.length; i++) {
-            componentWeights[componentList[i]] = FHE.asEuint32(1);
+        owner = msg.sender;
+        
+        string[5] memory defaults = ["clock", "notifications", "activity", "weather", "calendar"];
+        for (uint i = 0; i < defaults.length; i++) {
+            registerComponent(defaults[i]);
         }
+        
+        // Sensor readings come in much larger units than preference levels
+        signalWeights = SignalWeights({
+            activity: 100,
+            notifications: 100,
+            steps: 1,
+            restingHeartRate: 10,
+            sleep: 10,
+            appInteractions: 100
+        });
+        
+        // Preference and urgency levels are expected on a 0-10 scale each
+        batchThreshold = 5;
+        immediateThreshold = 12;
+    }
+
+    /// @notice Set how much each profile signal counts towards component scores
+    /// @dev A weight of SIGNAL_WEIGHT_SCALE counts the signal once; 0 ignores it
+    function setSignalWeights(SignalWeights calldata weights) public onlyOwner {
+        signalWeights = weights;
+        
+        emit SignalWeightsUpdated();
+    }
+
+    /// @notice Add a component to the end of the catalog
+    function addComponent(string calldata name) public onlyOwner {
+        registerComponent(name);
+    }
+
+    /// @notice Remove a component from the catalog
+    function retireComponent(string calldata name) public onlyOwner {
+        require(isComponent[name], "Unknown component");
+        require(componentList.length > 1, "Catalog cannot be empty");
+        
+        uint index = 0;
+        while (keccak256(bytes(componentList[index])) != keccak256(bytes(name))) {
+            index++;
+        }
+        for (uint i = index; i + 1 < componentList.length; i++) {
+            componentList[i] = componentList[i + 1];
+        }
+        componentList.pop();
+        isComponent[name] = false;
+        
+        emit ComponentRetired(name);
+    }
+
+    /// @notice Replace the catalog order with a permutation of its components
+    function reorderComponents(string[] calldata newOrder) public onlyOwner {
+        require(newOrder.length == componentList.length, "Not a permutation");
+        for (uint i = 0; i < newOrder.length; i++) {
+            require(isComponent[newOrder[i]], "Unknown component");
+            for (uint j = 0; j < i; j++) {
+                require(keccak256(bytes(newOrder[i])) != keccak256(bytes(newOrder[j])), "Duplicate component");
+            }
+        }
+        
+        for (uint i = 0; i < newOrder.length; i++) {
+            componentList[i] = newOrder[i];
+        }
+        
+        emit ComponentsReordered();
+    }
+
+    /// @notice Get the component catalog in layout order
+    function getComponents() public view returns (string[] memory) {
+        return componentList;
     }
 
-    /// @notice Update user profile
+    /// @notice Fold an observation from ciphertexts the caller already holds into their profile
+    /// @dev Meant for contracts that compute the signals on-chain; wallets
+    ///      should use updateProfileWithProof with freshly encrypted inputs
+    /// @param apps Component names the interaction counts belong to
     function updateProfile(
         euint32 encryptedActivityPattern,
-        euint32 encryptedNotificationPref
+        euint32 encryptedNotificationPref,
+        euint32 encryptedStepCount,
+        euint32 encryptedRestingHeartRate,
+        euint32 encryptedSleepDuration,
+        string[] calldata apps,
+        euint32[] calldata encryptedAppInteractions
     ) public {
-        userProfiles[msg.sender] = EncryptedUserProfile({
+        require(apps.length == encryptedAppInteractions.length, "Length mismatch");
+        
+        EncryptedUserProfile memory profile = EncryptedUserProfile({
             user: msg.sender,
             encryptedActivityPattern: encryptedActivityPattern,
             encryptedNotificationPref: encryptedNotificationPref,
+            encryptedStepCount: encryptedStepCount,
+            encryptedRestingHeartRate: encryptedRestingHeartRate,
+            encryptedSleepDuration: encryptedSleepDuration,
             timestamp: block.timestamp
         });
+        require(
+            FHE.isSenderAllowed(encryptedActivityPattern) &&
+                FHE.isSenderAllowed(encryptedNotificationPref) &&
+                FHE.isSenderAllowed(encryptedStepCount) &&
+                FHE.isSenderAllowed(encryptedRestingHeartRate) &&
+                FHE.isSenderAllowed(encryptedSleepDuration),
+            "Sender not allowed"
+        );
+        for (uint i = 0; i < encryptedAppInteractions.length; i++) {
+            require(FHE.isSenderAllowed(encryptedAppInteractions[i]), "Sender not allowed");
+        }
         
-        // Reset UI layout when profile changes
-        uiLayouts[msg.sender] = EncryptedUILayout({
-            encryptedLayoutConfig: FHE.asEuint32(0),
-            isComputed: false
+        storeProfile(profile, apps, encryptedAppInteractions);
+    }
+
+    /// @notice Fold an observation encrypted client-side into the caller's profile
+    /// @param apps Component names the interaction counts belong to
+    /// @param inputProof Proof covering every handle in this call
+    function updateProfileWithProof(
+        externalEuint32 activityPattern,
+        externalEuint32 notificationPref,
+        externalEuint32 stepCount,
+        externalEuint32 restingHeartRate,
+        externalEuint32 sleepDuration,
+        string[] calldata apps,
+        externalEuint32[] calldata appInteractionCounts,
+        bytes calldata inputProof
+    ) public {
+        require(apps.length == appInteractionCounts.length, "Length mismatch");
+        
+        EncryptedUserProfile memory profile = EncryptedUserProfile({
+            user: msg.sender,
+            encryptedActivityPattern: FHE.fromExternal(activityPattern, inputProof),
+            encryptedNotificationPref: FHE.fromExternal(notificationPref, inputProof),
+            encryptedStepCount: FHE.fromExternal(stepCount, inputProof),
+            encryptedRestingHeartRate: FHE.fromExternal(restingHeartRate, inputProof),
+            encryptedSleepDuration: FHE.fromExternal(sleepDuration, inputProof),
+            timestamp: block.timestamp
         });
+        euint32[] memory encryptedAppInteractions = new euint32[](appInteractionCounts.length);
+        for (uint i = 0; i < appInteractionCounts.length; i++) {
+            encryptedAppInteractions[i] = FHE.fromExternal(appInteractionCounts[i], inputProof);
+        }
         
-        decryptedLayouts[msg.sender] = DecryptedLayout({
-            layoutData: "",
-            isRevealed: false
+        storeProfile(profile, apps, encryptedAppInteractions);
+    }
+
+    /// @notice Set the caller's encrypted notification preference level per app
+    /// @dev Apps without a level fall back to the profile's notification preference
+    function setNotificationPreferences(
+        string[] calldata apps,
+        externalEuint32[] calldata levels,
+        bytes calldata inputProof
+    ) public {
+        require(apps.length == levels.length, "Length mismatch");
+        
+        for (uint i = 0; i < apps.length; i++) {
+            euint32 level = FHE.fromExternal(levels[i], inputProof);
+            FHE.allowThis(level);
+            FHE.allow(level, msg.sender);
+            notificationPrefs[msg.sender][apps[i]] = level;
+        }
+        
+        emit NotificationPreferencesUpdated(msg.sender);
+    }
+
+    /// @notice Set the score thresholds for batched and immediate delivery
+    function setNotificationThresholds(uint32 batch, uint32 immediate) public onlyOwner {
+        require(batch <= immediate, "Invalid thresholds");
+        batchThreshold = batch;
+        immediateThreshold = immediate;
+        
+        emit NotificationThresholdsUpdated(batch, immediate);
+    }
+
+    /// @notice Classify an incoming notification into an encrypted delivery tier
+    /// @dev The tier (TIER_SUPPRESS, TIER_BATCH or TIER_IMMEDIATE) is scored from
+    ///      the app's preference level plus the notification's urgency, and only
+    ///      the caller can decrypt it
+    function classifyNotification(
+        string calldata category,
+        externalEuint32 urgency,
+        bytes calldata inputProof
+    ) public returns (euint8 tier) {
+        euint32 level = notificationPrefs[msg.sender][category];
+        if (!FHE.isInitialized(level)) {
+            level = userProfiles[msg.sender].encryptedNotificationPref;
+        }
+        euint32 score = FHE.add(level, FHE.fromExternal(urgency, inputProof));
+        
+        tier = FHE.add(
+            FHE.asEuint8(FHE.ge(score, batchThreshold)),
+            FHE.asEuint8(FHE.ge(score, immediateThreshold))
+        );
+        FHE.allowThis(tier);
+        FHE.allow(tier, msg.sender);
+        notificationTiers[msg.sender][category] = tier;
+        
+        emit NotificationClassified(msg.sender, category);
+    }
+
+    /// @notice Get the encrypted tier of a user's latest notification in a category
+    function getNotificationTier(address user, string calldata category) public view returns (euint8) {
+        return notificationTiers[user][category];
+    }
+
+    /// @notice Get the caller's encrypted notification preference level for an app
+    function getNotificationPreference(string calldata app) public view returns (euint32) {
+        return notificationPrefs[msg.sender][app];
+    }
+
+    /// @notice Verify the encrypted values of a watch face config and let the caller decrypt them
+    /// @dev Replaces the caller's previous values for `faceId`; handles of earlier
+    ///      saves keep their access, so older versions stay decryptable
+    function storeWatchFaceValues(
+        string calldata faceId,
+        externalEuint32[] calldata values,
+        bytes calldata inputProof
+    ) public {
+        require(bytes(faceId).length > 0, "Empty id");
+        
+        delete watchFaceValues[msg.sender][faceId];
+        euint32[] storage stored = watchFaceValues[msg.sender][faceId];
+        for (uint i = 0; i < values.length; i++) {
+            euint32 value = FHE.fromExternal(values[i], inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, msg.sender);
+            stored.push(value);
+        }
+        
+        emit WatchFaceValuesStored(msg.sender, faceId, values.length);
+    }
+
+    /// @notice Get the encrypted values last stored for one of a user's watch faces
+    function getWatchFaceValues(address user, string calldata faceId) public view returns (euint32[] memory) {
+        return watchFaceValues[user][faceId];
+    }
+
+    /// @notice Forget the caller's profile; the next observation starts a new one
+    function resetProfile() public {
+        userProfiles[msg.sender] = EncryptedUserProfile({
+            user: address(0),
+            encryptedActivityPattern: euint32.wrap(0),
+            encryptedNotificationPref: euint32.wrap(0),
+            encryptedStepCount: euint32.wrap(0),
+            encryptedRestingHeartRate: euint32.wrap(0),
+            encryptedSleepDuration: euint32.wrap(0),
+            timestamp: 0
         });
         
-        emit ProfileUpdated(msg.sender);
+        string[] storage apps = interactionApps[msg.sender];
+        for (uint i = 0; i < apps.length; i++) {
+            appInteractions[msg.sender][apps[i]] = euint32.wrap(0);
+        }
+        delete interactionApps[msg.sender];
+        
+        emit ProfileReset(msg.sender);
     }
 
-    /// @notice Compute personalized UI layout
+    /// @notice Compute personalized UI layout from the current profile
+    /// @dev Can be called again at any time; each run adds a layout version
     function computeUILayout() public {
         require(userProfiles[msg.sender].user != address(0), "No profile");
-        require(!uiLayouts[msg.sender].isComputed, "Already computed");
         
         EncryptedUserProfile storage profile = userProfiles[msg.sender];
         
-        // Calculate component weights based on user preferences
-        euint32 totalWeight = FHE.asEuint32(0);
+        mapping(string => euint32) storage weights = componentWeights[msg.sender];
+        
+        // Calculate component weights based on user preferences; components
+        // without a weight yet (new to the catalog, or reset) start from 1
+        euint32 minWeight;
         for (uint i = 0; i < componentList.length; i++) {
-            componentWeights[componentList[i]] = FHE.add(
-                componentWeights[componentList[i]],
-                FHE.mul(profile.encryptedActivityPattern, FHE.asEuint32(i+1))
+            if (!FHE.isInitialized(weights[componentList[i]])) {
+                weights[componentList[i]] = FHE.asEuint32(1);
+            }
+            weights[componentList[i]] = FHE.add(
+                weights[componentList[i]],
+                FHE.mul(profile.encryptedActivityPattern, FHE.asEuint32(uint32(i + 1)))
             );
-            totalWeight = FHE.add(totalWeight, componentWeights[componentList[i]]);
+            minWeight = i == 0 ? weights[componentList[i]] : FHE.min(minWeight, weights[componentList[i]]);
         }
         
-        // Normalize weights
+        // Normalize against the user's lightest component and halve, so the
+        // weights keep their ordering but stay bounded across recomputations
         for (uint i = 0; i < componentList.length; i++) {
-            componentWeights[componentList[i]] = FHE.div(
-                componentWeights[componentList[i]],
-                totalWeight
-            );
+            weights[componentList[i]] = FHE.shr(FHE.sub(weights[componentList[i]], minWeight), uint8(1));
+            FHE.allowThis(weights[componentList[i]]);
+            FHE.allow(weights[componentList[i]], msg.sender);
         }
         
-        // Generate layout configuration (simplified for demo)
-        uiLayouts[msg.sender].encryptedLayoutConfig = FHE.add(
-            profile.encryptedActivityPattern,
-            profile.encryptedNotificationPref
-        );
-        uiLayouts[msg.sender].isComputed = true;
+        // Score each component from the user's weights and direct signals
+        SignalWeights memory signals = signalWeights;
+        euint32[] memory scores = new euint32[](componentList.length);
+        for (uint i = 0; i < componentList.length; i++) {
+            scores[i] = weights[componentList[i]];
+            bytes32 component = keccak256(bytes(componentList[i]));
+            if (component == NOTIFICATIONS_COMPONENT) {
+                scores[i] = addSignal(scores[i], profile.encryptedNotificationPref, signals.notifications);
+            } else if (component == ACTIVITY_COMPONENT) {
+                scores[i] = addSignal(scores[i], profile.encryptedActivityPattern, signals.activity);
+                scores[i] = addSignal(scores[i], profile.encryptedStepCount, signals.steps);
+            } else if (component == HEART_RATE_COMPONENT) {
+                scores[i] = addSignal(scores[i], profile.encryptedRestingHeartRate, signals.restingHeartRate);
+            } else if (component == SLEEP_COMPONENT) {
+                scores[i] = addSignal(scores[i], profile.encryptedSleepDuration, signals.sleep);
+            }
+            
+            euint32 interactions = appInteractions[msg.sender][componentList[i]];
+            if (FHE.isInitialized(interactions)) {
+                scores[i] = addSignal(scores[i], interactions, signals.appInteractions);
+            }
+        }
+        
+        EncryptedUILayout storage layout = uiLayouts[msg.sender];
+        layout.encryptedLayoutConfig = rankComponents(scores);
+        FHE.allowThis(layout.encryptedLayoutConfig);
+        // Lets the user decrypt their layout privately instead of revealing it on-chain
+        FHE.allow(layout.encryptedLayoutConfig, msg.sender);
+        layout.isComputed = true;
+        layout.version++;
+        
+        LayoutVersion storage entry = layoutHistory[msg.sender][layout.version % MAX_LAYOUT_HISTORY];
+        entry.encryptedLayoutConfig = layout.encryptedLayoutConfig;
+        entry.timestamp = block.timestamp;
+        entry.components = componentList;
+        
+        // A new version supersedes any earlier public reveal or pending request
+        delete decryptedLayouts[msg.sender];
+        DecryptionRequest storage request = decryptionRequests[msg.sender];
+        if (request.status == DecryptionStatus.Pending) {
+            closeDecryptionRequest(request, DecryptionStatus.Expired);
+        }
+        
+        emit LayoutComputed(msg.sender, layout.version);
+    }
+
+    /// @notice Get the oldest and latest layout versions still kept for a user
+    /// @dev Both are 0 before the first layout is computed
+    function getLayoutVersionRange(address user) public view returns (uint256 oldest, uint256 latest) {
+        latest = uiLayouts[user].version;
+        if (latest == 0) {
+            return (0, 0);
+        }
+        oldest = latest > MAX_LAYOUT_HISTORY ? latest - MAX_LAYOUT_HISTORY + 1 : 1;
+    }
+
+    /// @notice Get a retained layout version
+    function getLayoutVersion(address user, uint256 version) public view returns (
+        euint64 encryptedLayoutConfig,
+        uint256 timestamp,
+        string[] memory components
+    ) {
+        (uint256 oldest, uint256 latest) = getLayoutVersionRange(user);
+        require(version >= oldest && version <= latest && version != 0, "Version not retained");
         
-        emit LayoutComputed(msg.sender);
+        LayoutVersion storage entry = layoutHistory[user][version % MAX_LAYOUT_HISTORY];
+        return (entry.encryptedLayoutConfig, entry.timestamp, entry.components);
+    }
+
+    /// @notice Reset the caller's component weights to their initial values
+    function resetComponentWeights() public {
+        for (uint i = 0; i < componentList.length; i++) {
+            componentWeights[msg.sender][componentList[i]] = euint32.wrap(0);
+        }
+        
+        emit ComponentWeightsReset(msg.sender);
+    }
+
+    /// @notice Get the caller's encrypted component weights, in component order
+    function getComponentWeights() public view returns (euint32[] memory weights) {
+        weights = new euint32[](componentList.length);
+        for (uint i = 0; i < componentList.length; i++) {
+            weights[i] = componentWeights[msg.sender][componentList[i]];
+        }
+    }
+
+    /// @notice Get the caller's encrypted per-app interaction counts
+    function getAppInteractions() public view returns (string[] memory apps, euint32[] memory counts) {
+        apps = interactionApps[msg.sender];
+        counts = new euint32[](apps.length);
+        for (uint i = 0; i < apps.length; i++) {
+            counts[i] = appInteractions[msg.sender][apps[i]];
+        }
     }
 
     /// @notice Request UI layout decryption
+    /// @dev Publishes the layout through the public decryption oracle; users
+    ///      who want to keep it private should decrypt it client-side instead
     function requestLayoutDecryption() public {
         require(uiLayouts[msg.sender].isComputed, "Layout not computed");
         require(!decryptedLayouts[msg.sender].isRevealed, "Already revealed");
+        require(decryptionRequests[msg.sender].status != DecryptionStatus.Pending, "Request pending");
         
         bytes32[] memory ciphertexts = new bytes32[](1);
         ciphertexts[0] = FHE.toBytes32(uiLayouts[msg.sender].encryptedLayoutConfig);
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptLayoutCallback.selector);
         requestToUser[reqId] = msg.sender;
+        decryptionRequests[msg.sender] = DecryptionRequest({
+            requestId: reqId,
+            version: uiLayouts[msg.sender].version,
+            requestedAt: block.timestamp,
+            status: DecryptionStatus.Pending
+        });
         
-        emit DecryptionRequested(msg.sender);
+        emit DecryptionRequested(msg.sender, reqId);
+    }
+
+    /// @notice Get the status of a user's latest decryption request
+    /// @dev A pending request past DECRYPTION_TIMEOUT reports as expired
+    function getDecryptionStatus(address user) public view returns (
+        DecryptionStatus status,
+        uint256 requestId,
+        uint256 requestedAt
+    ) {
+        DecryptionRequest storage request = decryptionRequests[user];
+        status = request.status;
+        if (status == DecryptionStatus.Pending && isTimedOut(request)) {
+            status = DecryptionStatus.Expired;
+        }
+        return (status, request.requestId, request.requestedAt);
+    }
+
+    /// @notice Give up on a decryption request the oracle has not answered in time
+    function cancelLayoutDecryption() public {
+        DecryptionRequest storage request = decryptionRequests[msg.sender];
+        require(request.status == DecryptionStatus.Pending, "No pending request");
+        require(isTimedOut(request), "Request not expired");
+        
+        closeDecryptionRequest(request, DecryptionStatus.Expired);
+        
+        emit DecryptionCancelled(msg.sender, request.requestId);
     }
 
     /// @notice Handle layout decryption callback
@@ -132,44 +579,170 @@ contract SmartWatchUI is SepoliaConfig {
         address user = requestToUser[requestId];
         require(user != address(0), "Invalid request");
         
-        DecryptedLayout storage layout = decryptedLayouts[user];
-        require(!layout.isRevealed, "Already revealed");
-        
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        uint32 config = abi.decode(cleartexts, (uint32));
-        layout.layoutData = generateLayout(config);
+        DecryptionRequest storage request = decryptionRequests[user];
+        closeDecryptionRequest(request, DecryptionStatus.Fulfilled);
+        
+        uint64 config = abi.decode(cleartexts, (uint64));
+        DecryptedLayout storage layout = decryptedLayouts[user];
+        layout.version = request.version;
+        layout.priorities = unpackPriorities(config, layoutHistory[user][request.version % MAX_LAYOUT_HISTORY].components.length);
         layout.isRevealed = true;
         
-        emit LayoutRevealed(user);
+        emit LayoutRevealed(user, request.version);
     }
 
-    /// @notice Generate UI layout from decrypted config
-    function generateLayout(uint32 config) private view returns (string memory) {
-        // Simplified layout generation based on config
-        string memory layout = "Watch UI Layout:\n";
-        for (uint i = 0; i < componentList.length; i++) {
+    /// @notice Get a user's revealed layout as parallel component and priority arrays
+    function getRevealedLayout(address user) public view returns (
+        uint256 version,
+        string[] memory components,
+        uint8[] memory priorities
+    ) {
+        DecryptedLayout storage layout = decryptedLayouts[user];
+        require(layout.isRevealed, "Not revealed");
+        
+        return (
+            layout.version,
+            layoutHistory[user][layout.version % MAX_LAYOUT_HISTORY].components,
+            layout.priorities
+        );
+    }
+
+    /// @notice Get encrypted UI layout
+    function getEncryptedLayout() public view returns (euint64) {
+        require(uiLayouts[msg.sender].isComputed, "Not computed");
+        return uiLayouts[msg.sender].encryptedLayoutConfig;
+    }
+
+    /// @notice Get the components a user's encrypted layout was computed for
+    function getLayoutComponents(address user) public view returns (string[] memory) {
+        return layoutHistory[user][uiLayouts[user].version % MAX_LAYOUT_HISTORY].components;
+    }
+
+    /// @notice Get the caller's revealed layout as human-readable text
+    /// @dev Convenience view for debugging; clients should use getRevealedLayout
+    function getDecryptedLayout() public view returns (string memory layout) {
+        (, string[] memory components, uint8[] memory priorities) = getRevealedLayout(msg.sender);
+        
+        layout = "Watch UI Layout:\n";
+        for (uint i = 0; i < components.length; i++) {
             layout = string(abi.encodePacked(
                 layout, 
-                componentList[i], 
+                components[i], 
                 ": Priority ", 
-                uintToString((config >> (i * 3)) & 7),
+                uintToString(priorities[i]),
                 "\n"
             ));
         }
-        return layout;
     }
 
-    /// @notice Get encrypted UI layout
-    function getEncryptedLayout() public view returns (euint32) {
-        require(uiLayouts[msg.sender].isComputed, "Not computed");
-        return uiLayouts[msg.sender].encryptedLayoutConfig;
+    /// @notice Rank components by score and pack their priorities, stored as 0-based ranks
+    /// @dev Priority 1 is the highest score; ties go to the earlier component,
+    ///      so the decoded priorities always form a permutation of 1..n
+    function rankComponents(euint32[] memory scores) private returns (euint64 packed) {
+        // Ranks never exceed MAX_COMPONENTS, so the pairwise counting stays in
+        // 8 bits and each rank is widened once for packing
+        euint8[] memory ranks = new euint8[](scores.length);
+        for (uint i = 0; i < scores.length; i++) {
+            ranks[i] = FHE.asEuint8(0);
+        }
+        
+        for (uint i = 0; i < scores.length; i++) {
+            for (uint j = i + 1; j < scores.length; j++) {
+                ebool laterWins = FHE.gt(scores[j], scores[i]);
+                ranks[i] = FHE.add(ranks[i], FHE.asEuint8(laterWins));
+                ranks[j] = FHE.add(ranks[j], FHE.asEuint8(FHE.not(laterWins)));
+            }
+        }
+        
+        packed = FHE.asEuint64(0);
+        for (uint i = 0; i < scores.length; i++) {
+            packed = FHE.or(packed, FHE.shl(FHE.asEuint64(ranks[i]), uint8(i * PRIORITY_BITS)));
+        }
     }
 
-    /// @notice Get decrypted UI layout
-    function getDecryptedLayout() public view returns (string memory) {
-        require(decryptedLayouts[msg.sender].isRevealed, "Not revealed");
-        return decryptedLayouts[msg.sender].layoutData;
+    /// @notice Fold an observation into the caller's running profile
+    /// @dev The first observation seeds the profile; apps missing from an
+    ///      observation keep their running interaction count
+    function storeProfile(
+        EncryptedUserProfile memory observation,
+        string[] calldata apps,
+        euint32[] memory encryptedAppInteractions
+    ) private {
+        EncryptedUserProfile storage profile = userProfiles[msg.sender];
+        bool isFirst = profile.user == address(0);
+        
+        profile.user = msg.sender;
+        profile.encryptedActivityPattern = foldObservation(profile.encryptedActivityPattern, observation.encryptedActivityPattern, isFirst);
+        profile.encryptedNotificationPref = foldObservation(profile.encryptedNotificationPref, observation.encryptedNotificationPref, isFirst);
+        profile.encryptedStepCount = foldObservation(profile.encryptedStepCount, observation.encryptedStepCount, isFirst);
+        profile.encryptedRestingHeartRate = foldObservation(profile.encryptedRestingHeartRate, observation.encryptedRestingHeartRate, isFirst);
+        profile.encryptedSleepDuration = foldObservation(profile.encryptedSleepDuration, observation.encryptedSleepDuration, isFirst);
+        profile.timestamp = block.timestamp;
+        
+        for (uint i = 0; i < apps.length; i++) {
+            euint32 current = appInteractions[msg.sender][apps[i]];
+            bool isNewApp = !FHE.isInitialized(current);
+            if (isNewApp) {
+                interactionApps[msg.sender].push(apps[i]);
+            }
+            appInteractions[msg.sender][apps[i]] = foldObservation(current, encryptedAppInteractions[i], isNewApp);
+        }
+        require(interactionApps[msg.sender].length <= MAX_COMPONENTS, "Too many apps");
+        
+        emit ProfileUpdated(msg.sender);
+    }
+
+    /// @notice Exponential moving average step, readable by this contract and the user
+    function foldObservation(euint32 aggregate, euint32 observation, bool isFirst) private returns (euint32 folded) {
+        folded = isFirst
+            ? observation
+            : FHE.div(FHE.add(FHE.mul(aggregate, EMA_WEIGHT - 1), observation), EMA_WEIGHT);
+        FHE.allowThis(folded);
+        FHE.allow(folded, msg.sender);
+    }
+
+    /// @notice Decode each component's 1-based priority from the packed config
+    function unpackPriorities(uint64 config, uint256 count) private pure returns (uint8[] memory priorities) {
+        priorities = new uint8[](count);
+        for (uint i = 0; i < count; i++) {
+            priorities[i] = uint8((config >> (i * PRIORITY_BITS)) & ((1 << PRIORITY_BITS) - 1)) + 1;
+        }
+    }
+
+    /// @notice Settle a pending decryption request so late callbacks are rejected
+    function closeDecryptionRequest(DecryptionRequest storage request, DecryptionStatus status) private {
+        delete requestToUser[request.requestId];
+        request.status = status;
+    }
+
+    /// @notice Whether a request has waited longer than DECRYPTION_TIMEOUT
+    function isTimedOut(DecryptionRequest storage request) private view returns (bool) {
+        return block.timestamp >= request.requestedAt + DECRYPTION_TIMEOUT;
+    }
+
+    /// @notice Add a profile signal to a score, scaled by its configured weight
+    function addSignal(euint32 score, euint32 signal, uint32 weight) private returns (euint32) {
+        if (weight == 0) {
+            return score;
+        }
+        if (weight == SIGNAL_WEIGHT_SCALE) {
+            return FHE.add(score, signal);
+        }
+        return FHE.add(score, FHE.div(FHE.mul(signal, weight), SIGNAL_WEIGHT_SCALE));
+    }
+
+    /// @notice Append a new component to the catalog
+    function registerComponent(string memory name) private {
+        require(bytes(name).length > 0, "Empty name");
+        require(!isComponent[name], "Component exists");
+        require(componentList.length < MAX_COMPONENTS, "Catalog full");
+        
+        componentList.push(name);
+        isComponent[name] = true;
+        
+        emit ComponentAdded(name);
     }
 
     /// @notice Helper to convert uint to string
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Key-value store where every writer has its own namespace: a key
+///         only ever holds what its writer stored, so nobody can claim or
+///         overwrite another account's keys.
+contract UniversalAdapter {
+
+    event DataStored(address indexed sender, string key, bytes value);
+    event MigrationClosed();
+
+    address public owner;
+    // Lets the owner import legacy records on behalf of their writers until closed
+    bool public migrationOpen = true;
+
+    // Keyed by keccak256(writer, key)
+    mapping(bytes32 => bytes) private _storage;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function isAvailable() public pure returns (bool) {
+        return true;
+    }
+
+    /// @notice Store a value under `key` in the caller's namespace
+    function setData(string calldata key, bytes calldata value) external {
+        _storage[_slot(msg.sender, key)] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    /// @notice Get what `writer` stored under `key`, or empty bytes
+    function getData(address writer, string calldata key) external view returns (bytes memory) {
+        return _storage[_slot(writer, key)];
+    }
+
+    /// @notice Copy records from a legacy adapter into the namespaces of the owners they name
+    /// @dev Keys an owner has already written are skipped so an interrupted
+    ///      migration can simply be re-run
+    function importRecords(
+        string[] calldata keys,
+        bytes[] calldata values,
+        address[] calldata owners
+    ) external onlyOwner {
+        require(migrationOpen, "Migration closed");
+        require(keys.length == values.length && keys.length == owners.length, "Length mismatch");
+        for (uint i = 0; i < keys.length; i++) {
+            require(owners[i] != address(0), "Invalid owner");
+            bytes32 slot = _slot(owners[i], keys[i]);
+            if (_storage[slot].length > 0) {
+                continue;
+            }
+            _storage[slot] = values[i];
+            emit DataStored(owners[i], keys[i], values[i]);
+        }
+    }
+
+    /// @notice Permanently disable importRecords
+    function closeMigration() external onlyOwner {
+        require(migrationOpen, "Migration closed");
+        migrationOpen = false;
+        emit MigrationClosed();
+    }
+
+    function _slot(address writer, string calldata key) private pure returns (bytes32) {
+        return keccak256(abi.encodePacked(writer, key));
+    }
+
+}
@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Append-only index of watch face ids with per-owner lookups.
+/// @dev Face records stay in UniversalAdapter under `watchface_<id>`; this
+///      replaces the read-modify-write `watchface_keys` array, where concurrent
+///      writers dropped each other's entries.
+contract WatchFaceRegistry {
+    address public owner;
+    // Lets the owner import legacy ids on behalf of their creators until closed
+    bool public migrationOpen = true;
+
+    string[] private faceIds;
+    mapping(bytes32 => address) private faceOwners;
+    mapping(address => uint256[]) private ownerFaceIndexes;
+    mapping(address => string) private activeFaceIds;
+    // Number of accounts whose active face each id currently is
+    mapping(bytes32 => uint256) private activationCounts;
+
+    struct FaceVersion {
+        // keccak256 of the record stored for this version
+        bytes32 configHash;
+        uint64 timestamp;
+    }
+
+    mapping(bytes32 => FaceVersion[]) private faceVersions;
+    mapping(bytes32 => uint256) private currentVersions;
+
+    event WatchFaceRegistered(address indexed owner, string id, uint256 index);
+    event WatchFaceActivated(address indexed account, string id, string previousId);
+    event MigrationClosed();
+    event WatchFaceVersionAdded(address indexed owner, string id, uint256 version, bytes32 configHash);
+    event WatchFaceRolledBack(address indexed owner, string id, uint256 version, uint256 previousVersion);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    modifier onlyFaceOwner(string calldata id) {
+        require(faceOwners[keccak256(bytes(id))] == msg.sender, "Not face owner");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    /// @notice Register a new watch face id owned by the caller
+    function registerWatchFace(string calldata id) public {
+        register(msg.sender, id);
+    }
+
+    /// @notice Make any registered watch face the caller's active one, replacing any previous choice
+    function activateWatchFace(string calldata id) public {
+        bytes32 idHash = keccak256(bytes(id));
+        require(faceOwners[idHash] != address(0), "Unknown watch face");
+        string memory previousId = activeFaceIds[msg.sender];
+        bytes32 previousHash = keccak256(bytes(previousId));
+        require(previousHash != idHash, "Already active");
+
+        if (bytes(previousId).length > 0) {
+            activationCounts[previousHash]--;
+        }
+        activationCounts[idHash]++;
+        activeFaceIds[msg.sender] = id;
+        emit WatchFaceActivated(msg.sender, id, previousId);
+    }
+
+    /// @notice Get an account's active watch face id, or "" if it never activated one
+    function getActiveWatchFace(address account) public view returns (string memory) {
+        return activeFaceIds[account];
+    }
+
+    /// @notice Get how many accounts currently have a watch face active
+    function getActivationCount(string calldata id) public view returns (uint256) {
+        return activationCounts[keccak256(bytes(id))];
+    }
+
+    /// @notice Record a new immutable version of one of the caller's faces and make it current
+    function addWatchFaceVersion(string calldata id, bytes32 configHash) public onlyFaceOwner(id) {
+        require(configHash != bytes32(0), "Empty hash");
+        FaceVersion[] storage versions = faceVersions[keccak256(bytes(id))];
+        uint256 version = versions.length;
+        versions.push(FaceVersion(configHash, uint64(block.timestamp)));
+        currentVersions[keccak256(bytes(id))] = version;
+        emit WatchFaceVersionAdded(msg.sender, id, version, configHash);
+    }
+
+    /// @notice Make an earlier version of one of the caller's faces current again
+    /// @dev Versions are never removed, so a rollback can itself be undone
+    function rollbackWatchFace(string calldata id, uint256 version) public onlyFaceOwner(id) {
+        bytes32 idHash = keccak256(bytes(id));
+        require(version < faceVersions[idHash].length, "Unknown version");
+        uint256 previousVersion = currentVersions[idHash];
+        require(version != previousVersion, "Already current");
+
+        currentVersions[idHash] = version;
+        emit WatchFaceRolledBack(msg.sender, id, version, previousVersion);
+    }
+
+    function getVersionCount(string calldata id) public view returns (uint256) {
+        return faceVersions[keccak256(bytes(id))].length;
+    }
+
+    function getVersion(string calldata id, uint256 version) public view returns (FaceVersion memory) {
+        FaceVersion[] storage versions = faceVersions[keccak256(bytes(id))];
+        require(version < versions.length, "Unknown version");
+        return versions[version];
+    }
+
+    /// @notice Get the index of a face's current version; only meaningful when it has versions
+    function getCurrentVersion(string calldata id) public view returns (uint256) {
+        return currentVersions[keccak256(bytes(id))];
+    }
+
+    /// @notice Import ids from the legacy key list with the owners their records name
+    /// @dev Ids that are already registered are skipped so an interrupted
+    ///      migration can simply be re-run
+    function importWatchFaces(string[] calldata ids, address[] calldata owners) public onlyOwner {
+        require(migrationOpen, "Migration closed");
+        require(ids.length == owners.length, "Length mismatch");
+        for (uint i = 0; i < ids.length; i++) {
+            if (faceOwners[keccak256(bytes(ids[i]))] == address(0)) {
+                register(owners[i], ids[i]);
+            }
+        }
+    }
+
+    /// @notice Permanently disable importWatchFaces
+    function closeMigration() public onlyOwner {
+        require(migrationOpen, "Migration closed");
+        migrationOpen = false;
+        emit MigrationClosed();
+    }
+
+    /// @notice Get the owner of a watch face id, or address(0) if unregistered
+    function ownerOf(string calldata id) public view returns (address) {
+        return faceOwners[keccak256(bytes(id))];
+    }
+
+    function getWatchFaceCount() public view returns (uint256) {
+        return faceIds.length;
+    }
+
+    /// @notice Get up to `limit` ids in registration order, starting at `offset`
+    function getWatchFaceIds(uint256 offset, uint256 limit) public view returns (string[] memory ids) {
+        uint256 end = pageEnd(faceIds.length, offset, limit);
+        ids = new string[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            ids[i - offset] = faceIds[i];
+        }
+    }
+
+    function getOwnerWatchFaceCount(address faceOwner) public view returns (uint256) {
+        return ownerFaceIndexes[faceOwner].length;
+    }
+
+    /// @notice Get up to `limit` of an owner's ids in registration order, starting at `offset`
+    function getOwnerWatchFaceIds(
+        address faceOwner,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (string[] memory ids) {
+        uint256[] storage indexes = ownerFaceIndexes[faceOwner];
+        uint256 end = pageEnd(indexes.length, offset, limit);
+        ids = new string[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            ids[i - offset] = faceIds[indexes[i]];
+        }
+    }
+
+    function register(address faceOwner, string calldata id) private {
+        require(bytes(id).length > 0, "Empty id");
+        require(faceOwner != address(0), "Invalid owner");
+        bytes32 idHash = keccak256(bytes(id));
+        require(faceOwners[idHash] == address(0), "Already registered");
+
+        faceOwners[idHash] = faceOwner;
+        ownerFaceIndexes[faceOwner].push(faceIds.length);
+        emit WatchFaceRegistered(faceOwner, id, faceIds.length);
+        faceIds.push(id);
+    }
+
+    function pageEnd(uint256 length, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= length) {
+            return offset;
+        }
+        return length - offset < limit ? length : offset + limit;
+    }
+}
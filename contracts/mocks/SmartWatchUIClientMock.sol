@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { SmartWatchUI } from "../SmartWatchUI.sol";
+
+/// @notice Test client that feeds SmartWatchUI profiles built from known plaintexts
+contract SmartWatchUIClientMock is SepoliaConfig {
+    SmartWatchUI public immutable smartWatchUI;
+
+    constructor(SmartWatchUI _smartWatchUI) {
+        smartWatchUI = _smartWatchUI;
+    }
+
+    /// @notice Submit a profile with only the activity and notification signals set
+    function updateProfile(uint32 activityPattern, uint32 notificationPref) public {
+        updateSensorProfile(activityPattern, notificationPref, 0, 0, 0, new string[](0), new uint32[](0));
+    }
+
+    /// @notice Encrypt the given values on-chain and submit them as this client's profile
+    function updateSensorProfile(
+        uint32 activityPattern,
+        uint32 notificationPref,
+        uint32 stepCount,
+        uint32 restingHeartRate,
+        uint32 sleepDuration,
+        string[] memory apps,
+        uint32[] memory appInteractions
+    ) public {
+        euint32[] memory encryptedAppInteractions = new euint32[](appInteractions.length);
+        for (uint i = 0; i < appInteractions.length; i++) {
+            encryptedAppInteractions[i] = encrypt(appInteractions[i]);
+        }
+
+        smartWatchUI.updateProfile(
+            encrypt(activityPattern),
+            encrypt(notificationPref),
+            encrypt(stepCount),
+            encrypt(restingHeartRate),
+            encrypt(sleepDuration),
+            apps,
+            encryptedAppInteractions
+        );
+    }
+
+    function resetProfile() public {
+        smartWatchUI.resetProfile();
+    }
+
+    function computeUILayout() public {
+        smartWatchUI.computeUILayout();
+    }
+
+    function resetComponentWeights() public {
+        smartWatchUI.resetComponentWeights();
+    }
+
+    function getComponentWeights() public view returns (euint32[] memory) {
+        return smartWatchUI.getComponentWeights();
+    }
+
+    function requestLayoutDecryption() public {
+        smartWatchUI.requestLayoutDecryption();
+    }
+
+    function cancelLayoutDecryption() public {
+        smartWatchUI.cancelLayoutDecryption();
+    }
+
+    function getDecryptedLayout() public view returns (string memory) {
+        return smartWatchUI.getDecryptedLayout();
+    }
+
+    function getAppInteractions() public view returns (string[] memory, euint32[] memory) {
+        return smartWatchUI.getAppInteractions();
+    }
+
+    function encrypt(uint32 value) private returns (euint32 encrypted) {
+        encrypted = FHE.asEuint32(value);
+        FHE.allow(encrypted, address(smartWatchUI));
+    }
+}
@@ -337,7 +337,11 @@ async function main() {
 
   console.log("Deployer account:", wallet.address);
 
-  // Deploy the plain UniversalAdapter contract
+  // The activity indexer starts scanning logs from this block
+  const deploymentBlock = await provider.getBlockNumber();
+
+  // Deploy the plain UniversalAdapter contract. Records from an earlier
+  // adapter are copied into it with deploy/migrateWatchFaces.ts
   const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
   const factory = await UniversalAdapterFactory.deploy();
   await factory.waitForDeployment();
@@ -345,6 +349,22 @@ async function main() {
   const deployedAddress = (factory as any).target || (factory as any).address;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+  // Deploy the FHE personalization contract
+  const SmartWatchUIFactory = await hardhatEthers.getContractFactory("SmartWatchUI", wallet);
+  const smartWatchUI = await SmartWatchUIFactory.deploy();
+  await smartWatchUI.waitForDeployment();
+
+  const smartWatchUIAddress = (smartWatchUI as any).target || (smartWatchUI as any).address;
+  console.log("SmartWatchUI contract deployed at:", smartWatchUIAddress);
+
+  // Deploy the append-only watch face id registry
+  const WatchFaceRegistryFactory = await hardhatEthers.getContractFactory("WatchFaceRegistry", wallet);
+  const watchFaceRegistry = await WatchFaceRegistryFactory.deploy();
+  await watchFaceRegistry.waitForDeployment();
+
+  const watchFaceRegistryAddress = (watchFaceRegistry as any).target || (watchFaceRegistry as any).address;
+  console.log("WatchFaceRegistry contract deployed at:", watchFaceRegistryAddress);
+
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
@@ -353,7 +373,10 @@ async function main() {
     const config = {
       network: rpc,
       contractAddress: deployedAddress,
+      smartWatchUIAddress,
+      watchFaceRegistryAddress,
       deployer: wallet.address,
+      deploymentBlock,
     };
     fs.writeFileSync(
       path.join(frontendConfigDir, "config.json"),
@@ -361,25 +384,27 @@ async function main() {
     );
     console.log("Wrote frontend config: frontend/web/src/config.json");
 
-    // Copy ABI to the frontend
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-        e
-      );
+    // Copy ABIs to the frontend
+    const targetAbiPath = path.join(frontendConfigDir, "abi");
+    if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
+    for (const contractName of ["UniversalAdapter", "SmartWatchUI", "WatchFaceRegistry"]) {
+      try {
+        const artifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          `${contractName}.sol`,
+          `${contractName}.json`
+        );
+        fs.copyFileSync(artifactPath, path.join(targetAbiPath, `${contractName}.json`));
+        console.log(`Copied ABI to frontend/web/src/abi/${contractName}.json`);
+      } catch (e) {
+        console.warn(
+          `Failed to copy ABI automatically. Please copy artifacts/.../${contractName}.json manually to frontend/web/src/abi/${contractName}.json`,
+          e
+        );
+      }
     }
   }
 }
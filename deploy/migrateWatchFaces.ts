@@ -0,0 +1,120 @@
+// deploy/migrateWatchFaces.ts
+//
+// Imports the ids listed in the legacy UniversalAdapter `watchface_keys` JSON
+// array into WatchFaceRegistry, each under the owner its `watchface_<id>`
+// record names, and copies the `watchface_<id>` records into the adapter in
+// config.json, each into its owner's namespace so they can keep editing it.
+// Must be run by the owner of the registry and of the new adapter. Safe to
+// re-run: ids and records that are already there are skipped.
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { ethers as hardhatEthers } from "hardhat";
+import { Contract, JsonRpcProvider, Wallet, isAddress, toUtf8String } from "ethers";
+
+const ADAPTER_ABI = ["function getData(string key) view returns (bytes)"];
+const IMPORT_BATCH_SIZE = 50;
+
+async function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise<string>((resolve) =>
+    rl.question(prompt, (ans) => {
+      rl.close();
+      resolve(ans.trim());
+    })
+  );
+}
+
+async function main() {
+  const configPath = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+
+  const privateKey = await ask("Enter the registry owner private key (testnet only): ");
+  let rpc = await ask(`Enter the RPC URL (press Enter to use ${config.network}): `);
+  if (!rpc) rpc = config.network;
+  // No default: deploy.ts rewrites contractAddress to the new adapter
+  const adapterAddress = await ask("Enter the legacy UniversalAdapter address holding watchface_keys: ");
+  if (!isAddress(adapterAddress)) {
+    throw new Error(`Invalid adapter address: ${adapterAddress}`);
+  }
+  if (!isAddress(config.contractAddress) || !isAddress(config.watchFaceRegistryAddress)) {
+    throw new Error("contractAddress or watchFaceRegistryAddress missing from frontend/web/src/config.json");
+  }
+  // Records in the legacy adapter are not keyed by writer, so the frontend
+  // cannot read them in place
+  if (adapterAddress.toLowerCase() === config.contractAddress.toLowerCase()) {
+    throw new Error("The legacy adapter is still the one in config.json; run deploy.ts to deploy a new one first");
+  }
+
+  const provider = new JsonRpcProvider(rpc);
+  const wallet = new Wallet(privateKey, provider);
+  const adapter = new Contract(adapterAddress, ADAPTER_ABI, provider);
+  const registry = await hardhatEthers.getContractAt("WatchFaceRegistry", config.watchFaceRegistryAddress, wallet);
+  const currentAdapter = await hardhatEthers.getContractAt("UniversalAdapter", config.contractAddress, wallet);
+
+  const keysBytes: string = await adapter.getData("watchface_keys");
+  const keys: string[] = keysBytes === "0x" ? [] : JSON.parse(toUtf8String(keysBytes));
+  console.log(`Found ${keys.length} legacy watch face keys`);
+
+  const ids: string[] = [];
+  const owners: string[] = [];
+  const records: { key: string; value: string; owner: string }[] = [];
+  for (const id of keys) {
+    const registered = (await registry.ownerOf(id)) !== hardhatEthers.ZeroAddress;
+    const faceBytes: string = await adapter.getData(`watchface_${id}`);
+    if (faceBytes === "0x") {
+      console.warn(`Skipping ${id}: no stored record`);
+      continue;
+    }
+    let owner: unknown;
+    try {
+      owner = JSON.parse(toUtf8String(faceBytes)).owner;
+    } catch (e) {
+      console.warn(`Skipping ${id}: unreadable record`);
+      continue;
+    }
+    if (typeof owner !== "string" || !isAddress(owner)) {
+      console.warn(`Skipping ${id}: record has no valid owner`);
+      continue;
+    }
+    // Records live in their owner's namespace of the adapter
+    const copied = (await currentAdapter.getData(owner, `watchface_${id}`)) !== "0x";
+    if (!registered) {
+      ids.push(id);
+      owners.push(owner);
+    }
+    if (!copied) {
+      records.push({ key: `watchface_${id}`, value: faceBytes, owner });
+    }
+  }
+
+  for (let i = 0; i < records.length; i += IMPORT_BATCH_SIZE) {
+    const batch = records.slice(i, i + IMPORT_BATCH_SIZE);
+    const tx = await currentAdapter.importRecords(
+      batch.map((entry) => entry.key),
+      batch.map((entry) => entry.value),
+      batch.map((entry) => entry.owner)
+    );
+    await tx.wait();
+    console.log(`Copied ${Math.min(i + IMPORT_BATCH_SIZE, records.length)} of ${records.length} watch face records`);
+  }
+
+  // Keep the legacy order so the gallery still lists the newest faces first
+  for (let i = 0; i < ids.length; i += IMPORT_BATCH_SIZE) {
+    const tx = await registry.importWatchFaces(ids.slice(i, i + IMPORT_BATCH_SIZE), owners.slice(i, i + IMPORT_BATCH_SIZE));
+    await tx.wait();
+    console.log(`Imported ${Math.min(i + IMPORT_BATCH_SIZE, ids.length)} of ${ids.length} watch faces`);
+  }
+
+  const close = await ask("Close the migration so no more ids or records can be imported? (y/N): ");
+  if (close.toLowerCase() === "y") {
+    await (await registry.closeMigration()).wait();
+    await (await currentAdapter.closeMigration()).wait();
+    console.log("Migration closed");
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,27 +1,189 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { config as deploymentConfig, getContractReadOnly, getContractWithSigner } from "./contract";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import PersonalizationPanel from "./components/PersonalizationPanel";
+import NotificationPanel from "./components/NotificationPanel";
+import ActivityTimeline from "./components/ActivityTimeline";
+import { EncryptedConfig, decryptConfigValues, encryptConfig, getEncryptor } from "./fhe";
+import { getSmartWatchUIWithSigner, isSmartWatchUIConfigured, smartWatchUIAddress, storeWatchFaceValues } from "./smartWatchUI";
+import { ActivityEvent } from "./indexer";
+import { LiveConnectionState, subscribeToLiveEvents } from "./live";
+import { multicallRead } from "./multicall";
+import {
+  activateWatchFace as activateRegisteredWatchFace,
+  fetchActivationCounts,
+  fetchActiveWatchFace,
+  fetchWatchFaceIds,
+  fetchWatchFaceOwners,
+  getWatchFaceRegistryReadOnly,
+  getWatchFaceRegistryWithSigner,
+  isWatchFaceRegistryConfigured,
+  registerWatchFace,
+  addWatchFaceVersion,
+  rollbackWatchFace as rollbackRegisteredWatchFace
+} from "./registry";
+import { WatchFaceRecord, WatchFaceVersion, encodeWatchFaceRecord, storeWatchFaceVersion } from "./versions";
+import { createWatchFaceBundle, downloadWatchFaceBundle, parseWatchFaceBundle } from "./bundle";
+import {
+  WATCH_FACE_SCHEMA_VERSION,
+  WatchFaceConfigDraft,
+  WatchFacePreviewConfig,
+  configToDraft,
+  createDefaultConfig,
+  decodeConfigTemplate,
+  draftToConfig,
+  restoreEncryptedValues,
+  validateWatchFaceConfig
+} from "./watchFaceConfig";
+import WatchFaceConfigEditor from "./components/WatchFaceConfigEditor";
+import WatchFacePreview from "./components/WatchFacePreview";
+import WatchFaceDetails from "./components/WatchFaceDetails";
 import "./App.css";
 
 interface WatchFace {
   id: string;
   name: string;
-  encryptedConfig: string;
+  encryptedConfig: EncryptedConfig | string;
   timestamp: number;
   owner: string;
   category: "minimal" | "informative" | "interactive" | "custom";
-  isActive: boolean;
+  // 0 for records stored before the config schema existed
+  schemaVersion: number;
+  // Accounts that currently have this face active
+  activations: number;
+  // Decoded layout for the preview; null for records without a valid schema config
+  preview: WatchFacePreviewConfig | null;
+  updatedAt: number;
+  // Soft-deleted records stay in storage but are hidden from the gallery
+  deleted: boolean;
 }
 
+const WATCH_FACE_PREFIX = "watchface_";
+// Superseded by WatchFaceRegistry; see deploy/migrateWatchFaces.ts
+const LEGACY_WATCH_FACE_KEYS = "watchface_keys";
+const PAGE_SIZE = 24;
+
+const pendingKey = (id: string, owner: string) => `${owner.toLowerCase()}:${id}`;
+
+const parseWatchFace = (id: string, faceBytes: ethers.BytesLike): WatchFace => {
+  const faceData = JSON.parse(ethers.toUtf8String(faceBytes));
+  return {
+    id,
+    name: faceData.name,
+    encryptedConfig: faceData.config,
+    timestamp: faceData.timestamp,
+    owner: faceData.owner,
+    category: faceData.category,
+    schemaVersion: Number(faceData.schemaVersion) || 0,
+    preview:
+      Number(faceData.schemaVersion) >= 1 && faceData.config && typeof faceData.config === "object"
+        ? decodeConfigTemplate(faceData.config.template)
+        : null,
+    updatedAt: Number(faceData.updatedAt) || faceData.timestamp,
+    deleted: faceData.deleted === true,
+    // Read from the registry, see fetchWatchFaces
+    activations: 0
+  };
+};
+
+const toWatchFaceRecord = (face: WatchFace): WatchFaceRecord => ({
+  name: face.name,
+  config: face.encryptedConfig,
+  schemaVersion: face.schemaVersion,
+  timestamp: face.timestamp,
+  updatedAt: face.updatedAt,
+  owner: face.owner,
+  category: face.category,
+  deleted: face.deleted
+});
+
+// Writes land in the sender's own namespace, so nobody but the owner can
+// change what readers of the owner's record see
+const storeWatchFace = async (contract: ethers.Contract, id: string, record: WatchFaceRecord) => {
+  const tx = await contract.setData(`${WATCH_FACE_PREFIX}${id}`, encodeWatchFaceRecord(record));
+  await tx.wait();
+};
+
+// A record is only trusted when the address that wrote it is the owner it claims
+const isWrittenByOwner = (face: WatchFace, writer: string) =>
+  ethers.isAddress(face.owner) && face.owner.toLowerCase() === writer.toLowerCase();
+
+// Reads the registered owners of a page of faces, then each record from its
+// owner's namespace, then their activation counts, one batched read each.
+// Missing and deleted records and records claiming someone else as owner are
+// skipped.
+const fetchWatchFaces = async (
+  contract: ethers.Contract,
+  registry: ethers.Contract,
+  ids: string[]
+): Promise<WatchFace[]> => {
+  const owners = await fetchWatchFaceOwners(registry, ids);
+  const registered = ids
+    .map((id, i) => ({ id, owner: owners[i] }))
+    .filter(({ owner }) => owner !== ethers.ZeroAddress);
+  const values = await multicallRead(
+    contract,
+    registered.map(({ id, owner }) => ({ method: "getData", args: [owner, `${WATCH_FACE_PREFIX}${id}`] }))
+  );
+  const list: WatchFace[] = [];
+  registered.forEach(({ id, owner }, i) => {
+    const value = values[i] as string | null;
+    if (!value || ethers.dataLength(value) === 0) return;
+    try {
+      const face = parseWatchFace(id, value);
+      if (!isWrittenByOwner(face, owner)) {
+        console.warn(`Ignoring watch face ${id}: registered to ${owner}, claims owner ${face.owner}`);
+        return;
+      }
+      if (face.deleted) return;
+      list.push(face);
+    } catch (e) {
+      console.error(`Error parsing watch face data for ${id}:`, e);
+    }
+  });
+
+  const counts = await fetchActivationCounts(registry, list.map(face => face.id));
+  return list.map((face, i) => ({ ...face, activations: counts[i] }));
+};
+
+interface NewWatchFaceData {
+  name: string;
+  category: string;
+  config: WatchFaceConfigDraft;
+}
+
+const createNewWatchFaceData = (): NewWatchFaceData => ({
+  name: "",
+  category: "minimal",
+  config: configToDraft(createDefaultConfig())
+});
+
+// Faces without a schema config start from the default layout
+const watchFaceToData = (face: WatchFace, name: string, config = face.preview): NewWatchFaceData => ({
+  name,
+  category: face.category,
+  config: configToDraft(config || createDefaultConfig())
+});
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [watchFaces, setWatchFaces] = useState<WatchFace[]>([]);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [loadError, setLoadError] = useState("");
+  // Number of registered faces, and how many of the newest have been fetched
+  const [totalFaces, setTotalFaces] = useState(0);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // The connected account's active face id, "" if none
+  const [activeFaceId, setActiveFaceId] = useState("");
   const [showCreateModal, setShowCreateModal] = useState(false);
+  // Id of the face open in the modal for editing; null when creating
+  const [editingFaceId, setEditingFaceId] = useState<string | null>(null);
+  const [detailsFaceId, setDetailsFaceId] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
@@ -29,16 +191,21 @@ const App: React.FC = () => {
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newWatchFaceData, setNewWatchFaceData] = useState({
-    name: "",
-    category: "minimal",
-    config: ""
-  });
+  const [newWatchFaceData, setNewWatchFaceData] = useState<NewWatchFaceData>(createNewWatchFaceData);
   const [searchTerm, setSearchTerm] = useState("");
   const [activeFilter, setActiveFilter] = useState("all");
+  const [liveState, setLiveState] = useState<LiveConnectionState>("connecting");
+  const [liveEvent, setLiveEvent] = useState<ActivityEvent | null>(null);
+  // Faces written before their id shows up in the registry, by pendingKey
+  const pendingFaces = useRef<Record<string, WatchFace>>({});
+  // Registry ids already included in totalFaces and loadedCount
+  const countedIds = useRef<Set<string>>(new Set());
+
+  const isActive = (face: WatchFace) => !!account && face.id === activeFaceId;
 
   // Calculate statistics
-  const activeCount = watchFaces.filter(f => f.isActive).length;
+  const activeCount = watchFaces.filter(isActive).length;
+  const totalActivations = watchFaces.reduce((sum, face) => sum + face.activations, 0);
   const minimalCount = watchFaces.filter(f => f.category === "minimal").length;
   const informativeCount = watchFaces.filter(f => f.category === "informative").length;
   const interactiveCount = watchFaces.filter(f => f.category === "interactive").length;
@@ -48,6 +215,38 @@ const App: React.FC = () => {
     loadWatchFaces().finally(() => setLoading(false));
   }, []);
 
+  useEffect(() => subscribeToLiveEvents({
+    onDataStored: applyStoredData,
+    onWatchFaceRegistered: applyRegistration,
+    onWatchFaceActivated: applyActivation,
+    onActivity: setLiveEvent,
+    onConnectionChange: setLiveState
+  }), []);
+
+  useEffect(() => {
+    const loadActiveFace = async () => {
+      if (!account) {
+        setActiveFaceId("");
+        return;
+      }
+      const registry = await getWatchFaceRegistryReadOnly();
+      if (!registry) return;
+      try {
+        setActiveFaceId(await fetchActiveWatchFace(registry, account));
+      } catch (e) {
+        console.error("Error loading active watch face:", e);
+      }
+    };
+    loadActiveFace();
+  }, [account]);
+
+  // Follows activations made from the same wallet in other tabs or devices
+  useEffect(() => {
+    if (liveEvent?.name === "WatchFaceActivated" && account && liveEvent.account === account.toLowerCase()) {
+      setActiveFaceId(liveEvent.args.id);
+    }
+  }, [liveEvent]);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -75,8 +274,19 @@ const App: React.FC = () => {
   const loadWatchFaces = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      const [contract, registry] = await Promise.all([getContractReadOnly(), getWatchFaceRegistryReadOnly()]);
+      if (!registry) {
+        setLoadError(
+          isWatchFaceRegistryConfigured()
+            ? "WatchFaceRegistry is not deployed at the address in config.json"
+            : "WatchFaceRegistry address missing from config.json"
+        );
+        return;
+      }
+      if (!contract) {
+        setLoadError("UniversalAdapter is not available at the address in config.json");
+        return;
+      }
       
       // Check contract availability using FHE
       const isAvailable = await contract.isAvailable();
@@ -85,53 +295,124 @@ const App: React.FC = () => {
         return;
       }
       
-      const keysBytes = await contract.getData("watchface_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing watch face keys:", e);
-        }
-      }
-      
-      const list: WatchFace[] = [];
-      
-      for (const key of keys) {
-        try {
-          const faceBytes = await contract.getData(`watchface_${key}`);
-          if (faceBytes.length > 0) {
-            try {
-              const faceData = JSON.parse(ethers.toUtf8String(faceBytes));
-              list.push({
-                id: key,
-                name: faceData.name,
-                encryptedConfig: faceData.config,
-                timestamp: faceData.timestamp,
-                owner: faceData.owner,
-                category: faceData.category,
-                isActive: faceData.isActive
-              });
-            } catch (e) {
-              console.error(`Error parsing watch face data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading watch face ${key}:`, e);
-        }
-      }
+      const { ids, total } = await fetchWatchFaceIds(registry, 0, Math.max(loadedCount, PAGE_SIZE));
+      const list = await fetchWatchFaces(contract, registry, ids);
       
       list.sort((a, b) => b.timestamp - a.timestamp);
+      countedIds.current = new Set(ids);
+      setTotalFaces(total);
+      setLoadedCount(ids.length);
       setWatchFaces(list);
+      setLoadError("");
     } catch (e) {
       console.error("Error loading watch faces:", e);
+      setLoadError("Failed to load watch faces");
     } finally {
       setIsRefreshing(false);
       setLoading(false);
     }
   };
 
+  const loadMoreWatchFaces = async () => {
+    setLoadingMore(true);
+    try {
+      const [contract, registry] = await Promise.all([getContractReadOnly(), getWatchFaceRegistryReadOnly()]);
+      if (!contract || !registry) return;
+      const { ids: page, total } = await fetchWatchFaceIds(registry, loadedCount, PAGE_SIZE);
+      const list = await fetchWatchFaces(contract, registry, page);
+      page.forEach(id => countedIds.current.add(id));
+      setWatchFaces(faces =>
+        [...faces, ...list.filter(face => !faces.some(existing => existing.id === face.id))]
+          .sort((a, b) => b.timestamp - a.timestamp)
+      );
+      setTotalFaces(total);
+      setLoadedCount(loadedCount + page.length);
+    } catch (e) {
+      console.error("Error loading more watch faces:", e);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Updates the affected cards from a DataStored event without reloading the list
+  const applyStoredData = (key: string, value: string, event: ActivityEvent) => {
+    if (key === LEGACY_WATCH_FACE_KEYS) return;
+    if (!key.startsWith(WATCH_FACE_PREFIX) || ethers.dataLength(value) === 0) return;
+    let face: WatchFace;
+    try {
+      face = parseWatchFace(key.substring(WATCH_FACE_PREFIX.length), value);
+    } catch (e) {
+      console.error(`Error parsing watch face data for ${key}:`, e);
+      return;
+    }
+    if (!isWrittenByOwner(face, event.account)) {
+      console.warn(`Ignoring update to ${key}: sent by ${event.account}, claims owner ${face.owner}`);
+      return;
+    }
+    // Anyone can write a record for any id in their own namespace; only the
+    // registered owner's updates apply to a card
+    const isCardOwner = (existing: WatchFace) =>
+      existing.id === face.id && existing.owner.toLowerCase() === event.account.toLowerCase();
+    if (face.deleted) {
+      delete pendingFaces.current[pendingKey(face.id, event.account)];
+      setWatchFaces(faces => faces.filter(existing => !isCardOwner(existing)));
+      return;
+    }
+    setWatchFaces(faces => {
+      if (!faces.some(existing => existing.id === face.id)) {
+        pendingFaces.current[pendingKey(face.id, event.account)] = face;
+        return faces;
+      }
+      return faces.map(existing => (isCardOwner(existing) ? { ...face, activations: existing.activations } : existing));
+    });
+  };
+
+  // Adds a newly registered face as the newest card; a record its owner stored
+  // before the registration event arrived is already waiting in pendingFaces
+  const applyRegistration = async (id: string, event: ActivityEvent) => {
+    let face: WatchFace | undefined = pendingFaces.current[pendingKey(id, event.account)];
+    delete pendingFaces.current[pendingKey(id, event.account)];
+    if (!face) {
+      const [contract, registry] = await Promise.all([getContractReadOnly(), getWatchFaceRegistryReadOnly()]);
+      if (!contract || !registry) return;
+      [face] = await fetchWatchFaces(contract, registry, [id]);
+    }
+    // A reload after our own registration may have counted the id already
+    if (!countedIds.current.has(id)) {
+      countedIds.current.add(id);
+      setTotalFaces(total => total + 1);
+      setLoadedCount(count => count + 1);
+    }
+    if (!face) return;
+    const registered = face;
+    setWatchFaces(faces =>
+      faces.some(existing => existing.id === id)
+        ? faces
+        : [registered, ...faces].sort((a, b) => b.timestamp - a.timestamp)
+    );
+  };
+
+  // Refreshes the counts of the faces an activation moved between. They are
+  // re-read rather than adjusted, since a reload may already include the change.
+  const applyActivation = async (_account: string, id: string, previousId: string) => {
+    const registry = await getWatchFaceRegistryReadOnly();
+    if (!registry) return;
+    const ids = previousId && previousId !== id ? [id, previousId] : [id];
+    let counts: number[];
+    try {
+      counts = await fetchActivationCounts(registry, ids);
+    } catch (e) {
+      console.error("Error loading activation counts:", e);
+      return;
+    }
+    setWatchFaces(faces =>
+      faces.map(face => {
+        const i = ids.indexOf(face.id);
+        return i === -1 ? face : { ...face, activations: counts[i] };
+      })
+    );
+  };
+
   const submitWatchFace = async () => {
     if (!provider) { 
       alert("Please connect wallet first"); 
@@ -146,65 +427,73 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedConfig = `FHE-${btoa(JSON.stringify(newWatchFaceData))}`;
+      const { config: parsedConfig } = validateWatchFaceConfig(draftToConfig(newWatchFaceData.config));
+      if (!parsedConfig) {
+        throw new Error("Configuration is invalid");
+      }
+      const editedFace = editingFaceId ? watchFaces.find(face => face.id === editingFaceId) : undefined;
+      if (editingFaceId && !editedFace) {
+        throw new Error("Watch face is no longer available");
+      }
+      
+      if (!isSmartWatchUIConfigured()) {
+        throw new Error("SmartWatchUI address missing from config.json");
+      }
+      
+      // Encrypt numeric config values client-side, bound to the FHE contract
+      const encryptedConfig = await encryptConfig(
+        getEncryptor(),
+        smartWatchUIAddress,
+        account,
+        parsedConfig
+      );
       
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const faceId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const faceData = {
+      const registry = await getWatchFaceRegistryWithSigner();
+      const now = Math.floor(Date.now() / 1000);
+      const faceId = editedFace ? editedFace.id : `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      // Edits replace the current record, keeping its id and creation time
+      const record: WatchFaceRecord = {
+        ...(editedFace ? toWatchFaceRecord(editedFace) : { timestamp: now, owner: account }),
         name: newWatchFaceData.name,
         config: encryptedConfig,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        category: newWatchFaceData.category,
-        isActive: false
+        schemaVersion: WATCH_FACE_SCHEMA_VERSION,
+        updatedAt: now,
+        category: newWatchFaceData.category
       };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `watchface_${faceId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(faceData))
-      );
-      
-      const keysBytes = await contract.getData("watchface_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
+
+      if (!editedFace) {
+        // Registration is an on-chain append, so concurrent creators cannot drop
+        // each other's ids. It goes first: every later write reveals the id.
+        await registerWatchFace(registry, faceId);
       }
-      
-      keys.push(faceId);
-      
-      await contract.setData(
-        "watchface_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
+
+      if (encryptedConfig.handles.length > 0) {
+        // The contract verifies the proof and grants the owner access to the values
+        await storeWatchFaceValues(await getSmartWatchUIWithSigner(), faceId, encryptedConfig);
+      }
+
+      // Every save is kept as an immutable version next to the current record
+      const configHash = await storeWatchFaceVersion(contract, faceId, record);
+      // Store encrypted data on-chain using FHE
+      await storeWatchFace(contract, faceId, record);
+      await addWatchFaceVersion(registry, faceId, configHash);
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Watch face created with FHE encryption!"
+        message: editedFace ? "Watch face updated with FHE encryption!" : "Watch face created with FHE encryption!"
       });
       
       await loadWatchFaces();
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowCreateModal(false);
-        setNewWatchFaceData({
-          name: "",
-          category: "minimal",
-          config: ""
-        });
+        closeWatchFaceModal();
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction")
@@ -225,16 +514,123 @@ const App: React.FC = () => {
     }
   };
 
-  const activateWatchFace = async (faceId: string) => {
+  const openCreateModal = () => {
+    setEditingFaceId(null);
+    setNewWatchFaceData(createNewWatchFaceData());
+    setShowCreateModal(true);
+  };
+
+  // Fills in the encrypted values of a config that the connected wallet can
+  // decrypt; the others stay empty for the user to re-enter
+  const decryptWatchFaceConfig = async (encrypted: EncryptedConfig, config: WatchFacePreviewConfig) => {
+    if (!provider || encrypted.handles.length === 0) return config;
+    try {
+      const values = await decryptConfigValues(getEncryptor(), await provider.getSigner(), encrypted);
+      return restoreEncryptedValues(encrypted.template, config, values);
+    } catch (e) {
+      console.warn("Could not decrypt watch face values:", e);
+      return config;
+    }
+  };
+
+  // The owner's encrypted values are decrypted into the form so saving does
+  // not mean typing them all in again
+  const openFaceModal = async (face: WatchFace, name: string, editingId: string | null) => {
+    let config = face.preview;
+    if (config && typeof face.encryptedConfig === "object" && face.encryptedConfig.handles.length > 0) {
+      setTransactionStatus({ visible: true, status: "pending", message: "Decrypting watch face values..." });
+      config = await decryptWatchFaceConfig(face.encryptedConfig, config);
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    }
+    setEditingFaceId(editingId);
+    setNewWatchFaceData(watchFaceToData(face, name, config));
+    setShowCreateModal(true);
+  };
+
+  const openEditModal = (face: WatchFace) => openFaceModal(face, face.name, face.id);
+
+  // A duplicate is a new face with its own id, so it is created like any other
+  const openDuplicateModal = (face: WatchFace) => openFaceModal(face, `${face.name} (copy)`, null);
+
+  const closeWatchFaceModal = () => {
+    setShowCreateModal(false);
+    setEditingFaceId(null);
+    setNewWatchFaceData(createNewWatchFaceData());
+  };
+
+  // Marks the record as deleted rather than clearing it; registry ids are
+  // append-only and the record stays readable for anyone who had it active
+  const deleteWatchFace = async (face: WatchFace) => {
+    if (!window.confirm(`Delete "${face.name}"? It will be hidden from the gallery.`)) return;
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Deleting watch face..."
+    });
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) {
+        throw new Error("Failed to get contract with signer");
+      }
+      const registry = await getWatchFaceRegistryWithSigner();
+      const record: WatchFaceRecord = {
+        ...toWatchFaceRecord(face),
+        updatedAt: Math.floor(Date.now() / 1000),
+        deleted: true
+      };
+      // Versioned like any other save, so the history records the delete
+      const configHash = await storeWatchFaceVersion(contract, face.id, record);
+      await storeWatchFace(contract, face.id, record);
+      await addWatchFaceVersion(registry, face.id, configHash);
+      setWatchFaces(faces => faces.filter(existing => existing.id !== face.id));
+      showTransactionStatus("success", "Watch face deleted");
+    } catch (e: any) {
+      showTransactionStatus("error", "Delete failed: " + (e.message || "Unknown error"));
+    }
+  };
+
+  const exportWatchFace = async (face: WatchFace) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
+    try {
+      const signer = await provider.getSigner();
+      const { chainId } = await provider.getNetwork();
+      const bundle = await createWatchFaceBundle(
+        signer,
+        { chainId: Number(chainId), contract: deploymentConfig.contractAddress, id: face.id },
+        toWatchFaceRecord(face)
+      );
+      downloadWatchFaceBundle(bundle);
+    } catch (e: any) {
+      showTransactionStatus("error", "Export failed: " + (e.message || "Unknown error"));
+    }
+  };
+
+  // Loads a bundle file into the create form and resolves to the address that
+  // signed it. Bundles carry only the handles of encrypted values: the owner's
+  // wallet can decrypt them, anyone else gets them back empty to re-enter.
+  // Submitting encrypts the values afresh for the importing account.
+  const importWatchFaceBundle = async (file: File) => {
+    const { bundle, config: imported } = parseWatchFaceBundle(await file.text());
+    const restored = await decryptWatchFaceConfig(bundle.face.config, imported);
+    setNewWatchFaceData({ name: bundle.face.name, category: bundle.face.category, config: configToDraft(restored) });
+    return bundle.face.owner;
+  };
+
+  // Restores an older version's record and points the registry back at it.
+  // Resolves to whether the rollback went through.
+  const rollbackWatchFace = async (face: WatchFace, version: WatchFaceVersion) => {
+    if (!version.record) return false;
+    if (!window.confirm(`Roll "${face.name}" back to version ${version.version + 1}?`)) return false;
 
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing with FHE..."
+      message: "Rolling back watch face..."
     });
 
     try {
@@ -242,37 +638,35 @@ const App: React.FC = () => {
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
-      
-      const faceBytes = await contract.getData(`watchface_${faceId}`);
-      if (faceBytes.length === 0) {
-        throw new Error("Watch face not found");
-      }
-      
-      const faceData = JSON.parse(ethers.toUtf8String(faceBytes));
-      
-      // First deactivate all other faces
-      for (const face of watchFaces) {
-        if (face.isActive) {
-          const bytes = await contract.getData(`watchface_${face.id}`);
-          const data = JSON.parse(ethers.toUtf8String(bytes));
-          data.isActive = false;
-          await contract.setData(
-            `watchface_${face.id}`, 
-            ethers.toUtf8Bytes(JSON.stringify(data))
-          );
-        }
-      }
-      
-      // Then activate selected face
-      const updatedFace = {
-        ...faceData,
-        isActive: true
-      };
-      
-      await contract.setData(
-        `watchface_${faceId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedFace))
-      );
+      const registry = await getWatchFaceRegistryWithSigner();
+      await storeWatchFace(contract, face.id, version.record);
+      await rollbackRegisteredWatchFace(registry, face.id, version.version);
+      showTransactionStatus("success", `Rolled back to version ${version.version + 1}`);
+      await loadWatchFaces();
+      return true;
+    } catch (e: any) {
+      showTransactionStatus("error", "Rollback failed: " + (e.message || "Unknown error"));
+      return false;
+    }
+  };
+
+  const activateWatchFace = async (faceId: string) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Processing with FHE..."
+    });
+
+    try {
+      // One call records the new active face, replacing the previous one
+      const registry = await getWatchFaceRegistryWithSigner();
+      await activateRegisteredWatchFace(registry, faceId);
+      setActiveFaceId(faceId);
       
       setTransactionStatus({
         visible: true,
@@ -298,16 +692,28 @@ const App: React.FC = () => {
     }
   };
 
+  const showTransactionStatus = (status: "pending" | "success" | "error", message: string) => {
+    setTransactionStatus({ visible: true, status, message });
+    if (status !== "pending") {
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, status === "success" ? 2000 : 3000);
+    }
+  };
+
   const isOwner = (address: string) => {
     return account.toLowerCase() === address.toLowerCase();
   };
 
+  // Closes by itself when the face is deleted while open
+  const detailsFace = watchFaces.find(face => face.id === detailsFaceId);
+
   const filteredWatchFaces = watchFaces.filter(face => {
     const matchesSearch = face.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
                          face.category.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesFilter = activeFilter === "all" || 
-                         (activeFilter === "active" && face.isActive) || 
-                         (activeFilter === "inactive" && !face.isActive) ||
+                         (activeFilter === "active" && isActive(face)) || 
+                         (activeFilter === "inactive" && !isActive(face)) ||
                          face.category === activeFilter;
     return matchesSearch && matchesFilter;
   });
@@ -349,7 +755,7 @@ const App: React.FC = () => {
             </button>
           </div>
           <button 
-            onClick={() => setShowCreateModal(true)} 
+            onClick={openCreateModal} 
             className="create-btn"
           >
             + New Watch Face
@@ -403,8 +809,9 @@ const App: React.FC = () => {
           </div>
           
           <div className="stats-grid">
-            {renderStatsCard("Total Faces", watchFaces.length, "#3498db")}
-            {renderStatsCard("Active", activeCount, "#2ecc71")}
+            {renderStatsCard("Total Faces", totalFaces, "#3498db")}
+            {renderStatsCard("Your Active", activeCount, "#2ecc71")}
+            {renderStatsCard("Activations", totalActivations, "#34495e")}
             {renderStatsCard("Minimal", minimalCount, "#e74c3c")}
             {renderStatsCard("Informative", informativeCount, "#f39c12")}
             {renderStatsCard("Interactive", interactiveCount, "#9b59b6")}
@@ -412,16 +819,27 @@ const App: React.FC = () => {
           </div>
         </section>
         
+        <PersonalizationPanel account={account} onStatus={showTransactionStatus} liveEvent={liveEvent} />
+
+        <NotificationPanel account={account} onStatus={showTransactionStatus} />
+
+        <ActivityTimeline account={account} liveEvent={liveEvent} />
+        
         <section className="watchfaces-section">
           <div className="section-header">
             <h2>Your Watch Faces</h2>
-            <button 
-              onClick={loadWatchFaces}
-              className="refresh-btn"
-              disabled={isRefreshing}
-            >
-              {isRefreshing ? "Refreshing..." : "Refresh"}
-            </button>
+            <div className="header-actions">
+              <span className={`live-indicator ${liveState}`}>
+                {liveState === "live" ? "Live" : liveState === "connecting" ? "Connecting..." : "Reconnecting..."}
+              </span>
+              <button 
+                onClick={loadWatchFaces}
+                className="refresh-btn"
+                disabled={isRefreshing}
+              >
+                {isRefreshing ? "Refreshing..." : "Refresh"}
+              </button>
+            </div>
           </div>
           
           {filteredWatchFaces.length === 0 ? (
@@ -431,19 +849,25 @@ const App: React.FC = () => {
                   <path d="M17 7h5v10h-5v2a1 1 0 0 0 1 1h2v2h-2.5c-.55 0-1.5-.45-1.5-1 0 .55-.95 1-1.5 1H12v-2h2a1 1 0 0 0 1-1V7zm-9 9H3V7h5v2H5v6h3v2zm4 0V9h3c1.1 0 2 .9 2 2v4c0 1.1-.9 2-2 2h-3zm1-2h1v-4h-1v4z"/>
                 </svg>
               </div>
-              <p>No watch faces found</p>
-              <button 
-                className="create-btn"
-                onClick={() => setShowCreateModal(true)}
-              >
-                Create Your First Watch Face
-              </button>
+              {loadError ? (
+                <p className="field-error">{loadError}</p>
+              ) : (
+                <>
+                  <p>No watch faces found</p>
+                  <button 
+                    className="create-btn"
+                    onClick={() => setShowCreateModal(true)}
+                  >
+                    Create Your First Watch Face
+                  </button>
+                </>
+              )}
             </div>
           ) : (
             <div className="watchfaces-grid">
               {filteredWatchFaces.map(face => (
                 <div 
-                  className={`watchface-card ${face.isActive ? "active" : ""}`} 
+                  className={`watchface-card ${isActive(face) ? "active" : ""}`} 
                   key={face.id}
                 >
                   <div className="card-header">
@@ -454,44 +878,48 @@ const App: React.FC = () => {
                   </div>
                   <div className="card-body">
                     <div className="watchface-preview">
-                      <div className={`preview-${face.category}`}>
-                        {face.category === "minimal" && (
-                          <>
-                            <div className="hour-hand"></div>
-                            <div className="minute-hand"></div>
-                          </>
-                        )}
-                        {face.category === "informative" && (
-                          <>
-                            <div className="info-row">
-                              <span>12:45</span>
-                              <span>Wed</span>
-                            </div>
-                            <div className="info-row">
-                              <span>78 bpm</span>
-                              <span>3.2k steps</span>
-                            </div>
-                          </>
-                        )}
-                        {face.category === "interactive" && (
-                          <>
-                            <div className="interactive-circle"></div>
-                            <div className="interactive-dots">
+                      {face.preview ? (
+                        <WatchFacePreview config={face.preview} size={130} />
+                      ) : (
+                        <div className={`preview-${face.category}`}>
+                          {face.category === "minimal" && (
+                            <>
+                              <div className="hour-hand"></div>
+                              <div className="minute-hand"></div>
+                            </>
+                          )}
+                          {face.category === "informative" && (
+                            <>
+                              <div className="info-row">
+                                <span>12:45</span>
+                                <span>Wed</span>
+                              </div>
+                              <div className="info-row">
+                                <span>78 bpm</span>
+                                <span>3.2k steps</span>
+                              </div>
+                            </>
+                          )}
+                          {face.category === "interactive" && (
+                            <>
+                              <div className="interactive-circle"></div>
+                              <div className="interactive-dots">
+                                <div></div>
+                                <div></div>
+                                <div></div>
+                              </div>
+                            </>
+                          )}
+                          {face.category === "custom" && (
+                            <div className="custom-pattern">
+                              <div></div>
                               <div></div>
                               <div></div>
                               <div></div>
                             </div>
-                          </>
-                        )}
-                        {face.category === "custom" && (
-                          <div className="custom-pattern">
-                            <div></div>
-                            <div></div>
-                            <div></div>
-                            <div></div>
-                          </div>
-                        )}
-                      </div>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <div className="card-meta">
                       <span className="owner">
@@ -500,18 +928,44 @@ const App: React.FC = () => {
                       <span className="date">
                         {new Date(face.timestamp * 1000).toLocaleDateString()}
                       </span>
+                      <span className="activations">
+                        {face.activations} {face.activations === 1 ? "wearer" : "wearers"}
+                      </span>
                     </div>
                   </div>
                   <div className="card-footer">
-                    {isOwner(face.owner) && (
+                    {account && (
                       <button 
-                        className={`action-btn ${face.isActive ? "active" : ""}`}
+                        className={`action-btn ${isActive(face) ? "active" : ""}`}
                         onClick={() => activateWatchFace(face.id)}
-                        disabled={face.isActive}
+                        disabled={isActive(face)}
                       >
-                        {face.isActive ? "Active" : "Activate"}
+                        {isActive(face) ? "Active" : "Activate"}
                       </button>
                     )}
+                    <div className="card-actions">
+                      <button className="refresh-btn" onClick={() => setDetailsFaceId(face.id)}>
+                        Details
+                      </button>
+                      {account && isOwner(face.owner) && (
+                        <>
+                          <button className="refresh-btn" onClick={() => openEditModal(face)}>
+                            Edit
+                          </button>
+                          <button className="refresh-btn" onClick={() => openDuplicateModal(face)}>
+                            Duplicate
+                          </button>
+                          {face.preview && (
+                            <button className="refresh-btn" onClick={() => exportWatchFace(face)}>
+                              Export
+                            </button>
+                          )}
+                          <button className="refresh-btn danger" onClick={() => deleteWatchFace(face)}>
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </div>
                     <div className="fhe-badge">
                       <span>FHE Secured</span>
                     </div>
@@ -520,6 +974,14 @@ const App: React.FC = () => {
               ))}
             </div>
           )}
+
+          {loadedCount < totalFaces && (
+            <div className="load-more">
+              <button className="refresh-btn" onClick={loadMoreWatchFaces} disabled={loadingMore}>
+                {loadingMore ? "Loading..." : `Load More (${totalFaces - loadedCount} remaining)`}
+              </button>
+            </div>
+          )}
         </section>
         
         <section className="team-section">
@@ -565,13 +1027,24 @@ const App: React.FC = () => {
       {showCreateModal && (
         <ModalCreate 
           onSubmit={submitWatchFace} 
-          onClose={() => setShowCreateModal(false)} 
+          onClose={closeWatchFaceModal} 
           creating={creating}
+          editing={!!editingFaceId}
+          onImport={importWatchFaceBundle}
           watchFaceData={newWatchFaceData}
           setWatchFaceData={setNewWatchFaceData}
         />
       )}
       
+      {detailsFace && (
+        <WatchFaceDetails
+          face={detailsFace}
+          canRollback={!!account && isOwner(detailsFace.owner)}
+          onRollback={version => rollbackWatchFace(detailsFace, version)}
+          onClose={() => setDetailsFaceId(null)}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -626,17 +1099,27 @@ interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  watchFaceData: any;
-  setWatchFaceData: (data: any) => void;
+  editing: boolean;
+  onImport: (file: File) => Promise<string>;
+  watchFaceData: NewWatchFaceData;
+  setWatchFaceData: (data: NewWatchFaceData) => void;
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
   onSubmit, 
   onClose, 
   creating,
+  editing,
+  onImport,
   watchFaceData,
   setWatchFaceData
 }) => {
+  const [submitted, setSubmitted] = useState(false);
+  const [importedFrom, setImportedFrom] = useState("");
+  const [importError, setImportError] = useState("");
+  const { config, errors } = validateWatchFaceConfig(draftToConfig(watchFaceData.config));
+  const nameError = submitted && !watchFaceData.name.trim() ? "Name is required" : "";
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setWatchFaceData({
@@ -645,9 +1128,28 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
+  // Set when the form was prefilled from a stored face whose encrypted values cannot be read back
+  const missingValues = watchFaceData.config.complications.some(complication => complication.value === "");
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setImportError("");
+    setImportedFrom("");
+    try {
+      setImportedFrom(await onImport(file));
+    } catch (err: any) {
+      setImportError(err.message || "Import failed");
+    }
+  };
+
   const handleSubmit = () => {
-    if (!watchFaceData.name || !watchFaceData.config) {
-      alert("Please fill required fields");
+    setSubmitted(true);
+    if (!watchFaceData.name.trim() || Object.keys(errors).length > 0) {
+      return;
+    }
+    if (editing && !window.confirm(`Save changes to "${watchFaceData.name}"? This replaces the stored configuration.`)) {
       return;
     }
     
@@ -658,7 +1160,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     <div className="modal-overlay">
       <div className="create-modal">
         <div className="modal-header">
-          <h2>Create New Watch Face</h2>
+          <h2>{editing ? "Edit Watch Face" : "Create New Watch Face"}</h2>
           <button onClick={onClose} className="close-modal">
             <svg viewBox="0 0 24 24">
               <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12 19 6.41z"/>
@@ -671,9 +1173,27 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             <svg viewBox="0 0 24 24">
               <path d="M12 2L4 5v6.09c0 5.05 3.41 9.76 8 10.91 4.59-1.15 8-5.86 8-10.91V5l-8-3zm-1.06 13.54L7.4 12l1.41-1.41 2.12 2.12 4.24-4.24 1.41 1.41-5.64 5.66z"/>
             </svg>
-            <p>Your watch face configuration will be encrypted with FHE</p>
+            <p>Numeric configuration values are encrypted with FHE in your browser before submission</p>
           </div>
+          {missingValues && (
+            <p className="field-error">Some encrypted values could not be decrypted with this wallet; enter them again to save.</p>
+          )}
           
+          {!editing && (
+            <div className="form-group">
+              <label>Import from file</label>
+              <input type="file" accept=".json,application/json" onChange={handleImport} />
+              {importedFrom && (
+                <span className="personalization-hint">
+                  Imported a bundle signed by {importedFrom.substring(0, 6)}...{importedFrom.substring(38)}.
+                  Only that account can decrypt its encrypted values, so they are filled in for it alone; anyone
+                  else has to enter them again. Saving encrypts them for your account.
+                </span>
+              )}
+              {importError && <span className="field-error">{importError}</span>}
+            </div>
+          )}
+
           <div className="form-group">
             <label>Name *</label>
             <input 
@@ -683,6 +1203,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               onChange={handleChange}
               placeholder="My Awesome Watch Face" 
             />
+            {nameError && <span className="field-error">{nameError}</span>}
           </div>
           
           <div className="form-group">
@@ -700,15 +1221,21 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           </div>
           
           <div className="form-group">
-            <label>Configuration (JSON) *</label>
-            <textarea 
-              name="config"
-              value={watchFaceData.config} 
-              onChange={handleChange}
-              placeholder="Enter your watch face configuration in JSON format..." 
-              rows={6}
-            />
+            <label>Preview</label>
+            <div className="watchface-preview">
+              {config ? (
+                <WatchFacePreview config={config} />
+              ) : (
+                <span className="field-error">Fix the errors below to preview</span>
+              )}
+            </div>
           </div>
+
+          <WatchFaceConfigEditor
+            draft={watchFaceData.config}
+            errors={errors}
+            onChange={draft => setWatchFaceData({ ...watchFaceData, config: draft })}
+          />
         </div>
         
         <div className="modal-footer">
@@ -723,7 +1250,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             disabled={creating}
             className="submit-btn"
           >
-            {creating ? "Encrypting with FHE..." : "Create Watch Face"}
+            {creating ? "Encrypting with FHE..." : editing ? "Save Changes" : "Create Watch Face"}
           </button>
         </div>
       </div>
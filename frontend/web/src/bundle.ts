@@ -0,0 +1,139 @@
+// bundle.ts
+import { ethers } from "ethers";
+import { EncryptedConfig } from "./fhe";
+import { WatchFaceRecord } from "./versions";
+import { WATCH_FACE_SCHEMA_VERSION, WatchFacePreviewConfig, decodeConfigTemplate } from "./watchFaceConfig";
+
+export const WATCH_FACE_BUNDLE_FORMAT = "watchui-fhe/watch-face";
+export const WATCH_FACE_BUNDLE_VERSION = 1;
+
+// Everything in a bundle except the signature, which covers all of it
+export interface WatchFaceBundlePayload {
+  format: string;
+  version: number;
+  exportedAt: number;
+  source: { chainId: number; contract: string; id: string };
+  face: {
+    name: string;
+    category: string;
+    schemaVersion: number;
+    owner: string;
+    timestamp: number;
+    config: EncryptedConfig;
+  };
+}
+
+export interface WatchFaceBundle extends WatchFaceBundlePayload {
+  // Owner's personal_sign signature over getBundleMessage(payload)
+  signature: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// JSON with sorted keys, so reformatting a bundle file does not break its signature
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (isRecord(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+const getBundleMessage = (payload: WatchFaceBundlePayload) =>
+  `Export watch face "${payload.face.name}"\nBundle hash: ${ethers.id(canonicalJson(payload))}`;
+
+// Builds a bundle from a stored record and has `signer`, who must own the
+// face, sign it.
+export async function createWatchFaceBundle(
+  signer: ethers.Signer,
+  source: WatchFaceBundlePayload["source"],
+  record: WatchFaceRecord
+): Promise<WatchFaceBundle> {
+  const signerAddress = await signer.getAddress();
+  if (signerAddress.toLowerCase() !== record.owner.toLowerCase()) {
+    throw new Error("Only the owner can export a watch face");
+  }
+  if (typeof record.config !== "object" || !record.schemaVersion) {
+    throw new Error("Watch faces saved before the config schema cannot be exported");
+  }
+  const payload: WatchFaceBundlePayload = {
+    format: WATCH_FACE_BUNDLE_FORMAT,
+    version: WATCH_FACE_BUNDLE_VERSION,
+    exportedAt: Math.floor(Date.now() / 1000),
+    source,
+    face: {
+      name: record.name,
+      category: record.category,
+      schemaVersion: record.schemaVersion,
+      owner: record.owner,
+      timestamp: record.timestamp,
+      config: record.config
+    }
+  };
+  return { ...payload, signature: await signer.signMessage(getBundleMessage(payload)) };
+}
+
+export function downloadWatchFaceBundle(bundle: WatchFaceBundle) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${bundle.face.name.replace(/[^\w-]+/g, "-") || "watch-face"}.watchface.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Checks the structure, schema version and owner signature of a bundle file.
+// Throws with a message for the user when any of them is off.
+export function parseWatchFaceBundle(text: string): { bundle: WatchFaceBundle; config: WatchFacePreviewConfig } {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(text);
+  } catch (e) {
+    throw new Error("File is not valid JSON");
+  }
+  if (!isRecord(bundle) || bundle.format !== WATCH_FACE_BUNDLE_FORMAT) {
+    throw new Error("File is not a watch face bundle");
+  }
+  if (bundle.version !== WATCH_FACE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${bundle.version}`);
+  }
+  const { signature, ...payload } = bundle;
+  const face = payload.face;
+  if (
+    !isRecord(face) ||
+    typeof face.name !== "string" ||
+    typeof face.category !== "string" ||
+    !ethers.isAddress(face.owner) ||
+    !isRecord(face.config) ||
+    !Array.isArray(face.config.handles) ||
+    typeof signature !== "string"
+  ) {
+    throw new Error("Bundle is missing required fields");
+  }
+  if (face.schemaVersion !== WATCH_FACE_SCHEMA_VERSION) {
+    throw new Error(`Unsupported watch face schema version ${face.schemaVersion}`);
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(getBundleMessage(payload as WatchFaceBundlePayload), signature);
+  } catch (e) {
+    throw new Error("Bundle signature is malformed");
+  }
+  if (signer.toLowerCase() !== face.owner.toLowerCase()) {
+    throw new Error("Bundle was not signed by the watch face owner");
+  }
+
+  const config = decodeConfigTemplate(face.config.template);
+  if (!config) {
+    throw new Error("Bundle configuration does not match the watch face schema");
+  }
+  return { bundle: bundle as WatchFaceBundle, config };
+}
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import { getTestnetProvider } from "../contract";
+import {
+  ActivityEvent,
+  describeActivity,
+  getAccountActivity,
+  getCachedActivity,
+  mergeActivity,
+  resetActivityCursor,
+  syncActivity
+} from "../indexer";
+
+interface ActivityTimelineProps {
+  account: string;
+  liveEvent?: ActivityEvent | null;
+}
+
+export default function ActivityTimeline({ account, liveEvent }: ActivityTimelineProps) {
+  const [events, setEvents] = useState<ActivityEvent[]>(getCachedActivity);
+  const [syncing, setSyncing] = useState(false);
+  const [progress, setProgress] = useState("");
+  const [showAll, setShowAll] = useState(false);
+
+  const sync = async () => {
+    setSyncing(true);
+    try {
+      const provider = await getTestnetProvider();
+      const indexed = await syncActivity(provider, (scannedBlock, latestBlock) =>
+        setProgress(`Scanned up to block ${scannedBlock} of ${latestBlock}`)
+      );
+      setEvents(current => mergeActivity(indexed, current));
+      setProgress("");
+    } catch (e) {
+      console.error("Error syncing activity:", e);
+      setProgress("Sync failed, progress is saved and will resume");
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const rescan = () => {
+    if (!window.confirm("Discard indexed activity and scan again from the start?")) return;
+    resetActivityCursor();
+    setEvents([]);
+    sync();
+  };
+
+  useEffect(() => {
+    sync();
+  }, []);
+
+  useEffect(() => {
+    if (liveEvent) setEvents(current => mergeActivity(current, [liveEvent]));
+  }, [liveEvent]);
+
+  const visibleEvents = (showAll || !account ? events : getAccountActivity(events, account)).slice().reverse();
+
+  return (
+    <section className="activity-section">
+      <div className="section-header">
+        <h2>Activity Timeline</h2>
+        <div className="header-actions">
+          {account && (
+            <button onClick={() => setShowAll(!showAll)} className="refresh-btn">
+              {showAll ? "My Activity" : "All Accounts"}
+            </button>
+          )}
+          <button onClick={sync} className="refresh-btn" disabled={syncing}>
+            {syncing ? "Syncing..." : "Sync"}
+          </button>
+          <button onClick={rescan} className="refresh-btn" disabled={syncing}>
+            Rescan
+          </button>
+        </div>
+      </div>
+
+      {progress && <p className="personalization-hint">{progress}</p>}
+
+      {visibleEvents.length === 0 ? (
+        <p className="personalization-hint">
+          {account && !showAll ? "No activity for your account yet." : "No activity indexed yet."}
+        </p>
+      ) : (
+        <ol className="activity-list">
+          {visibleEvents.map(event => (
+            <li key={event.id} className="activity-item">
+              <span className={`activity-source ${event.source === "SmartWatchUI" ? "personalization" : "storage"}`}>
+                {event.source}
+              </span>
+              <div className="activity-body">
+                <span>{describeActivity(event)}</span>
+                <span className="activity-meta">
+                  {showAll && `${event.account.substring(0, 6)}...${event.account.substring(38)} · `}
+                  {event.timestamp ? new Date(event.timestamp * 1000).toLocaleString() : `block ${event.blockNumber}`}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
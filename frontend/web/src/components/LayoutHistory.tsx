@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  LayoutEntry,
+  LayoutVersion,
+  decryptLayoutVersion,
+  fetchLayoutHistory,
+  getSmartWatchUIReadOnly
+} from "../smartWatchUI";
+import { getEncryptor } from "../fhe";
+
+interface LayoutHistoryProps {
+  account: string;
+  latestVersion: number;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+export default function LayoutHistory({ account, latestVersion, onStatus }: LayoutHistoryProps) {
+  const [versions, setVersions] = useState<LayoutVersion[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [decrypted, setDecrypted] = useState<Record<number, LayoutEntry[]>>({});
+  const [decrypting, setDecrypting] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      if (!account || latestVersion === 0) {
+        setVersions([]);
+        return;
+      }
+      const contract = await getSmartWatchUIReadOnly();
+      if (!contract) return;
+      try {
+        setVersions(await fetchLayoutHistory(contract, account));
+      } catch (e) {
+        console.error("Error loading layout history:", e);
+      }
+    };
+    loadHistory();
+  }, [account, latestVersion]);
+
+  useEffect(() => {
+    setDecrypted({});
+    setSelected(null);
+  }, [account]);
+
+  const decryptVersion = async (layout: LayoutVersion) => {
+    setSelected(layout.version);
+    if (decrypted[layout.version]) return;
+
+    setDecrypting(true);
+    onStatus("pending", `Decrypting layout v${layout.version}...`);
+    try {
+      const provider = new ethers.BrowserProvider((window as any).ethereum);
+      const signer = await provider.getSigner();
+      const entries = await decryptLayoutVersion(getEncryptor(), signer, layout);
+      setDecrypted({ ...decrypted, [layout.version]: entries });
+      onStatus("success", `Layout v${layout.version} decrypted`);
+    } catch (e: any) {
+      onStatus("error", "Decryption failed: " + (e.reason || e.message || "Unknown error"));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  if (versions.length === 0) {
+    return <p>Computed layouts will be listed here.</p>;
+  }
+
+  return (
+    <div className="layout-history">
+      <ul className="layout-list">
+        {versions.map(layout => (
+          <li key={layout.version} className={layout.version === selected ? "selected" : ""}>
+            <span className="layout-priority">v{layout.version}</span>
+            <span>{new Date(layout.timestamp * 1000).toLocaleString()}</span>
+            <button
+              className="refresh-btn"
+              onClick={() => decryptVersion(layout)}
+              disabled={decrypting || !(window as any).ethereum}
+            >
+              {decrypted[layout.version] ? "Show" : "Decrypt"}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {selected !== null && decrypted[selected] && (
+        <ol className="layout-history-entries">
+          {decrypted[selected].map(entry => (
+            <li key={entry.component}>{entry.component}</li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import {
+  NotificationTier,
+  classifyNotification,
+  getSmartWatchUIWithSigner,
+  isSmartWatchUIConfigured,
+  setNotificationPreferences
+} from "../smartWatchUI";
+import { getEncryptor } from "../fhe";
+
+type TransactionStatus = "pending" | "success" | "error";
+
+interface NotificationPanelProps {
+  account: string;
+  onStatus: (status: TransactionStatus, message: string) => void;
+}
+
+const isLevel = (value: string) => /^\d+$/.test(value) && Number(value) <= 10;
+
+// Parses one `app: <level>` pair per line.
+const parsePreferences = (text: string) =>
+  text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line)
+    .map(line => {
+      const [app, level = ""] = line.split(":").map(part => part.trim());
+      return { app, level };
+    });
+
+export default function NotificationPanel({ account, onStatus }: NotificationPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [preferences, setPreferences] = useState("");
+  const [incoming, setIncoming] = useState({ category: "", urgency: "" });
+  const [tiers, setTiers] = useState<{ category: string; tier: NotificationTier }[]>([]);
+
+  const runStep = async (
+    messages: { pending: string; success: string; failure: string },
+    action: (contract: ethers.Contract) => Promise<unknown>
+  ) => {
+    setBusy(true);
+    onStatus("pending", messages.pending);
+    try {
+      const contract = await getSmartWatchUIWithSigner();
+      await action(contract);
+      onStatus("success", messages.success);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : messages.failure + ": " + (e.reason || e.message || "Unknown error");
+      onStatus("error", errorMessage);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitPreferences = () => {
+    const entries = parsePreferences(preferences);
+    if (entries.length === 0 || entries.some(entry => !entry.app || !isLevel(entry.level))) {
+      alert("Preferences must be one \"app: level\" pair per line, with levels from 0 to 10");
+      return;
+    }
+    runStep(
+      { pending: "Encrypting notification preferences...", success: "Notification preferences saved", failure: "Saving preferences failed" },
+      contract =>
+        setNotificationPreferences(
+          contract,
+          getEncryptor(),
+          account,
+          entries.map(entry => ({ app: entry.app, level: Number(entry.level) }))
+        )
+    );
+  };
+
+  const submitNotification = () => {
+    const category = incoming.category.trim();
+    if (!category || !isLevel(incoming.urgency)) {
+      alert("Enter a category and an urgency from 0 to 10");
+      return;
+    }
+    runStep(
+      { pending: "Classifying notification...", success: "Notification classified", failure: "Classification failed" },
+      async contract => {
+        const tier = await classifyNotification(
+          contract,
+          getEncryptor(),
+          contract.runner as ethers.Signer,
+          category,
+          Number(incoming.urgency)
+        );
+        setTiers([{ category, tier }, ...tiers]);
+      }
+    );
+  };
+
+  if (!isSmartWatchUIConfigured()) {
+    return null;
+  }
+
+  return (
+    <section className="personalization-section">
+      <div className="section-header">
+        <h2>Private Notifications</h2>
+      </div>
+
+      {!account ? (
+        <p className="personalization-hint">Connect your wallet to set notification preferences.</p>
+      ) : (
+        <div className="personalization-body">
+          <div className="personalization-card">
+            <h3>Per-app preferences</h3>
+            <div className="form-group">
+              <label>App levels (0-10)</label>
+              <textarea
+                value={preferences}
+                onChange={e => setPreferences(e.target.value)}
+                placeholder={"mail: 2\nchat: 8"}
+                rows={4}
+              />
+            </div>
+            <button className="action-btn" onClick={submitPreferences} disabled={busy}>
+              Save Preferences
+            </button>
+          </div>
+
+          <div className="personalization-card">
+            <h3>Incoming notification</h3>
+            <div className="form-group">
+              <label>Category *</label>
+              <input
+                type="text"
+                value={incoming.category}
+                onChange={e => setIncoming({ ...incoming, category: e.target.value })}
+                placeholder="e.g. chat"
+              />
+            </div>
+            <div className="form-group">
+              <label>Urgency (0-10) *</label>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                value={incoming.urgency}
+                onChange={e => setIncoming({ ...incoming, urgency: e.target.value })}
+              />
+            </div>
+            <button className="action-btn" onClick={submitNotification} disabled={busy}>
+              Classify
+            </button>
+          </div>
+
+          <div className="personalization-card">
+            <h3>Delivery tiers</h3>
+            {tiers.length > 0 ? (
+              <ul className="layout-list">
+                {tiers.map((entry, i) => (
+                  <li key={i}>
+                    <span className={`notification-tier ${entry.tier}`}>{entry.tier}</span>
+                    <span>{entry.category}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p>Tiers are decrypted in your browser; nobody else can read them.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
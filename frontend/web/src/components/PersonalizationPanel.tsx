@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  ComponentCatalog,
+  DecryptionRequestState,
+  LayoutEntry,
+  LayoutState,
+  addComponent,
+  cancelLayoutDecryption,
+  computeUILayout,
+  decryptLayoutPrivately,
+  fetchComponentCatalog,
+  fetchDecryptionStatus,
+  fetchLayoutState,
+  getLayoutStage,
+  getSmartWatchUIReadOnly,
+  getSmartWatchUIWithSigner,
+  isSmartWatchUIConfigured,
+  reorderComponents,
+  requestLayoutDecryption,
+  resetComponentWeights,
+  resetProfile,
+  retireComponent,
+  updateProfile,
+  waitForLayoutReveal
+} from "../smartWatchUI";
+import { getEncryptor } from "../fhe";
+import LayoutHistory from "./LayoutHistory";
+import { ActivityEvent } from "../indexer";
+
+type TransactionStatus = "pending" | "success" | "error";
+
+interface PersonalizationPanelProps {
+  account: string;
+  onStatus: (status: TransactionStatus, message: string) => void;
+  liveEvent?: ActivityEvent | null;
+}
+
+const PROFILE_FIELDS = [
+  { name: "activityPattern", label: "Activity level (0-10) *" },
+  { name: "notificationPref", label: "Notification preference (0-10) *" },
+  { name: "stepCount", label: "Daily steps *" },
+  { name: "restingHeartRate", label: "Resting heart rate (bpm) *" },
+  { name: "sleepDuration", label: "Sleep duration (minutes) *" }
+] as const;
+
+type ProfileField = (typeof PROFILE_FIELDS)[number]["name"];
+
+const isCount = (value: string) => /^\d+$/.test(value);
+
+// Parses one `app: <count>` pair per line.
+const parseAppInteractions = (text: string) =>
+  text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line)
+    .map(line => {
+      const [app, count = ""] = line.split(":").map(part => part.trim());
+      return { app, count };
+    });
+
+const STEPS = [
+  { stage: "no-profile", label: "Profile" },
+  { stage: "profile", label: "Compute" },
+  { stage: "computed", label: "Decrypt" },
+  { stage: "revealed", label: "Layout" }
+] as const;
+
+export default function PersonalizationPanel({ account, onStatus, liveEvent }: PersonalizationPanelProps) {
+  const [layoutState, setLayoutState] = useState<LayoutState | null>(null);
+  // Privately decrypted layout, tied to the ciphertext it came from
+  const [privateLayout, setPrivateLayout] = useState<{ handle: string; entries: LayoutEntry[] } | null>(null);
+  const [decryptionRequest, setDecryptionRequest] = useState<DecryptionRequestState | null>(null);
+  const [catalog, setCatalog] = useState<ComponentCatalog | null>(null);
+  const [newComponent, setNewComponent] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [profileInput, setProfileInput] = useState<Record<ProfileField | "appInteractions", string>>({
+    activityPattern: "",
+    notificationPref: "",
+    stepCount: "",
+    restingHeartRate: "",
+    sleepDuration: "",
+    appInteractions: ""
+  });
+
+  const visiblePrivateLayout =
+    privateLayout && layoutState?.isComputed && privateLayout.handle === layoutState.encryptedLayout
+      ? privateLayout.entries
+      : null;
+  const layoutEntries = visiblePrivateLayout
+    ?? layoutState?.revealedLayout?.entries
+    ?? null;
+  const stage = visiblePrivateLayout ? "revealed" : getLayoutStage(layoutState);
+  const stageIndex = STEPS.findIndex(step => step.stage === stage);
+  const isCatalogOwner = !!account && !!catalog && catalog.owner.toLowerCase() === account.toLowerCase();
+
+  const refreshState = async () => {
+    if (!account) {
+      setLayoutState(null);
+      return;
+    }
+    const contract = await getSmartWatchUIReadOnly();
+    if (!contract) return;
+    try {
+      const [state, components, request] = await Promise.all([
+        fetchLayoutState(contract, account),
+        fetchComponentCatalog(contract),
+        fetchDecryptionStatus(contract, account)
+      ]);
+      setLayoutState(state);
+      setCatalog(components);
+      setDecryptionRequest(request);
+    } catch (e) {
+      console.error("Error loading layout state:", e);
+    }
+  };
+
+  useEffect(() => {
+    refreshState();
+  }, [account]);
+
+  // Picks up changes made from other tabs and oracle callbacks revealing the layout
+  useEffect(() => {
+    if (liveEvent?.source === "SmartWatchUI" && account && liveEvent.account === account.toLowerCase()) {
+      refreshState();
+    }
+  }, [liveEvent]);
+
+  const runStep = async (
+    messages: { pending: string; success: string; failure: string },
+    action: (contract: ethers.Contract) => Promise<unknown>
+  ) => {
+    setBusy(true);
+    onStatus("pending", messages.pending);
+    try {
+      const contract = await getSmartWatchUIWithSigner();
+      await action(contract);
+      onStatus("success", messages.success);
+      await refreshState();
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : messages.failure + ": " + (e.reason || e.message || "Unknown error");
+      onStatus("error", errorMessage);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitProfile = () => {
+    const appInteractions = parseAppInteractions(profileInput.appInteractions);
+    if (PROFILE_FIELDS.some(field => !isCount(profileInput[field.name]))) {
+      alert("All profile values must be whole numbers");
+      return;
+    }
+    if (appInteractions.some(entry => !entry.app || !isCount(entry.count))) {
+      alert("App interactions must be one \"app: count\" pair per line");
+      return;
+    }
+    runStep(
+      { pending: "Encrypting and submitting profile...", success: "Encrypted profile updated", failure: "Profile update failed" },
+      contract =>
+        updateProfile(contract, getEncryptor(), account, {
+          activityPattern: Number(profileInput.activityPattern),
+          notificationPref: Number(profileInput.notificationPref),
+          stepCount: Number(profileInput.stepCount),
+          restingHeartRate: Number(profileInput.restingHeartRate),
+          sleepDuration: Number(profileInput.sleepDuration),
+          appInteractions: appInteractions.map(entry => ({ app: entry.app, count: Number(entry.count) }))
+        })
+    );
+  };
+
+  const computeLayout = () =>
+    runStep(
+      { pending: "Computing layout on encrypted data...", success: "Encrypted layout computed", failure: "Computation failed" },
+      computeUILayout
+    );
+
+  const cancelRequest = () =>
+    runStep(
+      { pending: "Cancelling decryption request...", success: "Decryption request cancelled", failure: "Cancellation failed" },
+      cancelLayoutDecryption
+    );
+
+  const clearProfile = () => {
+    if (!window.confirm("Forget your encrypted profile? Your next observation will start a new one.")) return;
+    runStep(
+      { pending: "Resetting profile...", success: "Profile reset", failure: "Reset failed" },
+      resetProfile
+    );
+  };
+
+  const resetWeights = () => {
+    if (!window.confirm("Reset your learned component weights?")) return;
+    runStep(
+      { pending: "Resetting component weights...", success: "Component weights reset", failure: "Reset failed" },
+      resetComponentWeights
+    );
+  };
+
+  const decryptLayout = () =>
+    runStep(
+      { pending: "Decrypting layout privately...", success: "Layout decrypted", failure: "Decryption failed" },
+      async contract => {
+        const entries = await decryptLayoutPrivately(contract, getEncryptor(), contract.runner as ethers.Signer);
+        setPrivateLayout({ handle: layoutState?.encryptedLayout ?? "", entries });
+      }
+    );
+
+  const revealLayoutPublicly = () => {
+    if (!window.confirm("Publishing reveals your layout to everyone on-chain. Continue?")) return;
+    runStep(
+      { pending: "Requesting public layout decryption...", success: "Layout revealed", failure: "Decryption failed" },
+      async contract => {
+        await requestLayoutDecryption(contract);
+        await waitForLayoutReveal(contract, account);
+      }
+    );
+  };
+
+  const submitComponent = () => {
+    const name = newComponent.trim();
+    if (!name) return;
+    runStep(
+      { pending: `Adding ${name}...`, success: `${name} added to the catalog`, failure: "Adding component failed" },
+      async contract => {
+        await addComponent(contract, name);
+        setNewComponent("");
+      }
+    );
+  };
+
+  const retire = (name: string) => {
+    if (!window.confirm(`Retire ${name} from every user's layout?`)) return;
+    runStep(
+      { pending: `Retiring ${name}...`, success: `${name} retired`, failure: "Retiring component failed" },
+      contract => retireComponent(contract, name)
+    );
+  };
+
+  const moveUp = (index: number) => {
+    if (!catalog || index === 0) return;
+    const order = [...catalog.components];
+    [order[index - 1], order[index]] = [order[index], order[index - 1]];
+    runStep(
+      { pending: "Reordering components...", success: "Catalog reordered", failure: "Reordering failed" },
+      contract => reorderComponents(contract, order)
+    );
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setProfileInput({
+      ...profileInput,
+      [name]: name === "appInteractions" ? value : value.trim()
+    });
+  };
+
+  if (!isSmartWatchUIConfigured()) {
+    return (
+      <section className="personalization-section">
+        <div className="section-header">
+          <h2>Encrypted Personalization</h2>
+        </div>
+        <p className="personalization-hint">
+          SmartWatchUI is not deployed yet. Run the deploy script to add its address to config.json.
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="personalization-section">
+      <div className="section-header">
+        <h2>Encrypted Personalization</h2>
+        <button onClick={refreshState} className="refresh-btn" disabled={busy || !account}>
+          Refresh
+        </button>
+      </div>
+
+      <ol className="personalization-steps">
+        {STEPS.map((step, i) => (
+          <li
+            key={step.stage}
+            className={i < stageIndex ? "done" : i === stageIndex ? "current" : ""}
+          >
+            {step.label}
+          </li>
+        ))}
+      </ol>
+
+      {!account ? (
+        <p className="personalization-hint">Connect your wallet to personalize your watch layout.</p>
+      ) : (
+        <div className="personalization-body">
+          <div className="personalization-card">
+            <h3>1. Encrypted profile</h3>
+            {PROFILE_FIELDS.map(field => (
+              <div className="form-group" key={field.name}>
+                <label>{field.label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  name={field.name}
+                  value={profileInput[field.name]}
+                  onChange={handleChange}
+                />
+              </div>
+            ))}
+            <div className="form-group">
+              <label>App interactions</label>
+              <textarea
+                name="appInteractions"
+                value={profileInput.appInteractions}
+                onChange={handleChange}
+                placeholder="music: 12"
+                rows={3}
+              />
+            </div>
+            <button className="action-btn" onClick={submitProfile} disabled={busy}>
+              {layoutState?.hasProfile ? "Add Observation" : "Submit Profile"}
+            </button>
+            {layoutState?.hasProfile && (
+              <button className="refresh-btn" onClick={clearProfile} disabled={busy}>
+                Reset Profile
+              </button>
+            )}
+            {layoutState?.hasProfile && (
+              <div className="card-meta">
+                <span>Last update</span>
+                <span>{new Date(layoutState.profileTimestamp * 1000).toLocaleString()}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="personalization-card">
+            <h3>2. Compute layout</h3>
+            <p>The contract derives your layout homomorphically from weights learned for your account only.</p>
+            <button className="action-btn" onClick={computeLayout} disabled={busy || stage === "no-profile"}>
+              {layoutState?.isComputed ? "Recompute Layout" : "Compute Layout"}
+            </button>
+            <button className="refresh-btn" onClick={resetWeights} disabled={busy}>
+              Reset Weights
+            </button>
+          </div>
+
+          <div className="personalization-card">
+            <h3>3. Decrypt layout</h3>
+            <p>Your wallet signs a one-day decryption permit; the layout is decrypted in your browser only.</p>
+            <button className="action-btn" onClick={decryptLayout} disabled={busy || stage !== "computed"}>
+              {stage === "revealed" ? "Decrypted" : "Decrypt Privately"}
+            </button>
+            {decryptionRequest?.status === "expired" ? (
+              <button className="refresh-btn" onClick={cancelRequest} disabled={busy}>
+                Cancel Expired Request
+              </button>
+            ) : (
+              <button
+                className="refresh-btn"
+                onClick={revealLayoutPublicly}
+                disabled={
+                  busy || !layoutState?.isComputed || layoutState.isRevealed || decryptionRequest?.status === "pending"
+                }
+              >
+                Publish On-chain
+              </button>
+            )}
+            {decryptionRequest && decryptionRequest.status !== "none" && (
+              <div className="card-meta">
+                <span>Public request #{decryptionRequest.requestId.toString()}</span>
+                <span>
+                  {decryptionRequest.status}, requested {new Date(decryptionRequest.requestedAt * 1000).toLocaleTimeString()}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="personalization-card">
+            <h3>4. Your layout</h3>
+            {layoutEntries ? (
+              <ul className="layout-list">
+                {layoutEntries.map(entry => (
+                  <li key={entry.component}>
+                    <span className="layout-priority">#{entry.priority}</span>
+                    <span>{entry.component}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p>Your layout will appear here after decryption.</p>
+            )}
+          </div>
+
+          <div className="personalization-card">
+            <h3>5. Layout history</h3>
+            <LayoutHistory account={account} latestVersion={layoutState?.layoutVersion ?? 0} onStatus={onStatus} />
+          </div>
+
+          {catalog && (
+            <div className="personalization-card">
+              <h3>Component catalog</h3>
+              <ul className="layout-list">
+                {catalog.components.map((component, i) => (
+                  <li key={component}>
+                    <span className="layout-priority">{i + 1}</span>
+                    <span>{component}</span>
+                    {isCatalogOwner && (
+                      <span className="catalog-actions">
+                        <button className="refresh-btn" onClick={() => moveUp(i)} disabled={busy || i === 0}>
+                          Up
+                        </button>
+                        <button className="refresh-btn" onClick={() => retire(component)} disabled={busy}>
+                          Retire
+                        </button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {isCatalogOwner && (
+                <div className="form-group">
+                  <input
+                    type="text"
+                    value={newComponent}
+                    onChange={e => setNewComponent(e.target.value)}
+                    placeholder="e.g. heartRate"
+                  />
+                  <button className="action-btn" onClick={submitComponent} disabled={busy || !newComponent.trim()}>
+                    Add Component
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
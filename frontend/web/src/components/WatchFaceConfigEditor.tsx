@@ -0,0 +1,176 @@
+import React from "react";
+import {
+  COLOR_FIELDS,
+  COMPLICATIONS,
+  ComplicationType,
+  ConfigErrors,
+  LAYOUT_GRIDS,
+  LayoutGrid,
+  SCREEN_SHAPES,
+  ScreenShape,
+  WIDGETS,
+  WatchFaceConfigDraft,
+  WidgetType,
+  draftToConfig,
+  getGridSize,
+  getGridSlots
+} from "../watchFaceConfig";
+
+interface WatchFaceConfigEditorProps {
+  draft: WatchFaceConfigDraft;
+  errors: ConfigErrors;
+  onChange: (draft: WatchFaceConfigDraft) => void;
+}
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <span className="field-error">{message}</span> : null;
+
+export default function WatchFaceConfigEditor({ draft, errors, onChange }: WatchFaceConfigEditorProps) {
+  const slots = getGridSlots(draft.grid);
+  const { columns } = getGridSize(draft.grid);
+  const unusedComplication = (Object.keys(COMPLICATIONS) as ComplicationType[]).find(
+    type => !draft.complications.some(complication => complication.type === type)
+  );
+
+  const setGrid = (grid: LayoutGrid) => {
+    const gridSlots = getGridSlots(grid);
+    // Widgets in slots the new grid does not have are dropped
+    onChange({ ...draft, grid, widgets: draft.widgets.filter(placement => gridSlots.includes(placement.slot)) });
+  };
+
+  const setSlotWidget = (slot: string, widget: WidgetType | "") => {
+    const others = draft.widgets.filter(placement => placement.slot !== slot);
+    onChange({ ...draft, widgets: widget ? [...others, { slot, widget }] : others });
+  };
+
+  const updateComplication = (index: number, changes: Partial<WatchFaceConfigDraft["complications"][number]>) => {
+    onChange({
+      ...draft,
+      complications: draft.complications.map((complication, i) => (i === index ? { ...complication, ...changes } : complication))
+    });
+  };
+
+  const addComplication = () => {
+    if (!unusedComplication) return;
+    const { min } = COMPLICATIONS[unusedComplication];
+    onChange({ ...draft, complications: [...draft.complications, { type: unusedComplication, value: String(min) }] });
+  };
+
+  const removeComplication = (index: number) => {
+    onChange({ ...draft, complications: draft.complications.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="config-editor">
+      <FieldError message={errors.config} />
+
+      <div className="form-row">
+        <div className="form-group">
+          <label>Screen shape</label>
+          <select value={draft.shape} onChange={e => onChange({ ...draft, shape: e.target.value as ScreenShape })}>
+            {SCREEN_SHAPES.map(shape => (
+              <option key={shape} value={shape}>{shape}</option>
+            ))}
+          </select>
+          <FieldError message={errors.shape} />
+        </div>
+        <div className="form-group">
+          <label>Layout grid</label>
+          <select value={draft.grid} onChange={e => setGrid(e.target.value as LayoutGrid)}>
+            {LAYOUT_GRIDS.map(grid => (
+              <option key={grid} value={grid}>{grid}</option>
+            ))}
+          </select>
+          <FieldError message={errors.grid} />
+        </div>
+      </div>
+
+      <div className="form-row">
+        {COLOR_FIELDS.map(field => (
+          <div className="form-group" key={field}>
+            <label>{field} color</label>
+            <div className="color-input">
+              <input
+                type="color"
+                value={/^#[0-9a-fA-F]{6}$/.test(draft.colors[field]) ? draft.colors[field] : "#000000"}
+                onChange={e => onChange({ ...draft, colors: { ...draft.colors, [field]: e.target.value } })}
+              />
+              <input
+                type="text"
+                value={draft.colors[field]}
+                onChange={e => onChange({ ...draft, colors: { ...draft.colors, [field]: e.target.value } })}
+              />
+            </div>
+            <FieldError message={errors[`colors.${field}`]} />
+          </div>
+        ))}
+      </div>
+
+      <div className="form-group">
+        <label>Widget slots</label>
+        <div className="slot-grid" style={{ gridTemplateColumns: `repeat(${columns}, 1fr)` }}>
+          {slots.map(slot => {
+            const index = draft.widgets.findIndex(placement => placement.slot === slot);
+            return (
+              <div key={slot} className="slot-cell">
+                <span className="slot-name">{slot}</span>
+                <select
+                  value={index >= 0 ? draft.widgets[index].widget : ""}
+                  onChange={e => setSlotWidget(slot, e.target.value as WidgetType | "")}
+                >
+                  <option value="">Empty</option>
+                  {WIDGETS.map(widget => (
+                    <option key={widget} value={widget}>{widget}</option>
+                  ))}
+                </select>
+                {index >= 0 && (
+                  <FieldError message={errors[`widgets[${index}].widget`] || errors[`widgets[${index}].slot`]} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <FieldError message={errors.widgets} />
+      </div>
+
+      <div className="form-group">
+        <label>Complications (encrypted)</label>
+        {draft.complications.map((complication, i) => (
+          <div key={i} className="complication-row">
+            <select
+              value={complication.type}
+              onChange={e => updateComplication(i, { type: e.target.value as ComplicationType })}
+            >
+              {(Object.keys(COMPLICATIONS) as ComplicationType[]).map(type => (
+                <option key={type} value={type}>{COMPLICATIONS[type].label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={COMPLICATIONS[complication.type].min}
+              max={COMPLICATIONS[complication.type].max}
+              value={complication.value}
+              onChange={e => updateComplication(i, { value: e.target.value })}
+            />
+            <span className="complication-unit">{COMPLICATIONS[complication.type].unit}</span>
+            <button type="button" className="refresh-btn" onClick={() => removeComplication(i)}>
+              Remove
+            </button>
+            <FieldError message={errors[`complications[${i}].type`] || errors[`complications[${i}].value`]} />
+          </div>
+        ))}
+        {unusedComplication && (
+          <button type="button" className="refresh-btn" onClick={addComplication}>
+            + Add Complication
+          </button>
+        )}
+        <FieldError message={errors.complications} />
+      </div>
+
+      <details className="config-json">
+        <summary>Generated JSON</summary>
+        <pre>{JSON.stringify(draftToConfig(draft), null, 2)}</pre>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from "react";
+import { getContractReadOnly } from "../contract";
+import { getWatchFaceRegistryReadOnly } from "../registry";
+import { WatchFaceVersion, diffWatchFaceRecords, loadWatchFaceVersions } from "../versions";
+import { WatchFacePreviewConfig } from "../watchFaceConfig";
+import WatchFacePreview from "./WatchFacePreview";
+
+interface WatchFaceDetailsProps {
+  face: {
+    id: string;
+    name: string;
+    owner: string;
+    timestamp: number;
+    updatedAt: number;
+    preview: WatchFacePreviewConfig | null;
+  };
+  canRollback: boolean;
+  onRollback: (version: WatchFaceVersion) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+export default function WatchFaceDetails({ face, canRollback, onRollback, onClose }: WatchFaceDetailsProps) {
+  const [versions, setVersions] = useState<WatchFaceVersion[]>([]);
+  const [current, setCurrent] = useState(-1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  // Version whose changes against the one before it are shown
+  const [compared, setCompared] = useState<number | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const loadVersions = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const [contract, registry] = await Promise.all([getContractReadOnly(), getWatchFaceRegistryReadOnly()]);
+      if (!contract || !registry) {
+        throw new Error("Contracts are not available");
+      }
+      const history = await loadWatchFaceVersions(contract, registry, face.id, face.owner);
+      setVersions(history.versions);
+      setCurrent(history.current);
+    } catch (e: any) {
+      console.error("Error loading watch face versions:", e);
+      setError(e.message || "Failed to load versions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, [face.id]);
+
+  const rollback = async (version: WatchFaceVersion) => {
+    setRollingBack(true);
+    try {
+      if (await onRollback(version)) {
+        await loadVersions();
+      }
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  const renderChanges = (version: WatchFaceVersion) => {
+    if (version.version === 0) {
+      return <p className="personalization-hint">First version</p>;
+    }
+    const previous = versions[version.version - 1];
+    if (!previous.record || !version.record) {
+      return <p className="personalization-hint">Unverified versions cannot be compared</p>;
+    }
+    const changes = diffWatchFaceRecords(previous.record, version.record);
+    if (changes.length === 0) {
+      return <p className="personalization-hint">No visible changes; only encrypted values may differ</p>;
+    }
+    return (
+      <table className="version-diff">
+        <tbody>
+          {changes.map(change => (
+            <tr key={change.field}>
+              <th>{change.field}</th>
+              <td className="removed">{change.before}</td>
+              <td className="added">{change.after}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal">
+        <div className="modal-header">
+          <h2>{face.name}</h2>
+          <button onClick={onClose} className="close-modal">
+            <svg viewBox="0 0 24 24">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12 19 6.41z"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {face.preview && (
+            <div className="watchface-preview">
+              <WatchFacePreview config={face.preview} />
+            </div>
+          )}
+          <p className="personalization-hint">
+            By {face.owner.substring(0, 6)}...{face.owner.substring(38)} · created {formatDate(face.timestamp)}
+            {face.updatedAt !== face.timestamp && ` · updated ${formatDate(face.updatedAt)}`}
+          </p>
+
+          <h3>Version history</h3>
+          {loading ? (
+            <p className="personalization-hint">Loading versions...</p>
+          ) : error ? (
+            <p className="field-error">{error}</p>
+          ) : versions.length === 0 ? (
+            <p className="personalization-hint">No versions recorded yet. Saving an edit starts the history.</p>
+          ) : (
+            <ol className="version-list">
+              {[...versions].reverse().map(version => (
+                <li key={version.version} className={version.version === current ? "current" : ""}>
+                  <div className="version-row">
+                    <strong>v{version.version + 1}</strong>
+                    <span>{formatDate(version.timestamp)}</span>
+                    <code title={version.configHash}>{version.configHash.substring(0, 10)}</code>
+                    {version.version === current && <span className="version-badge">Current</span>}
+                    {!version.record && <span className="version-badge unverified">Unverified</span>}
+                    <button
+                      className="refresh-btn"
+                      onClick={() => setCompared(compared === version.version ? null : version.version)}
+                    >
+                      {compared === version.version ? "Hide Changes" : "Changes"}
+                    </button>
+                    {canRollback && version.record && !version.record.deleted && version.version !== current && (
+                      <button className="refresh-btn" onClick={() => rollback(version)} disabled={rollingBack}>
+                        Roll Back
+                      </button>
+                    )}
+                  </div>
+                  {compared === version.version && renderChanges(version)}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from "react";
+import {
+  COMPLICATIONS,
+  WatchFacePreviewConfig,
+  WidgetType,
+  getGridSize,
+  getGridSlots
+} from "../watchFaceConfig";
+
+interface WatchFacePreviewProps {
+  config: WatchFacePreviewConfig;
+  size?: number;
+}
+
+// Sample readings; only the clock and date are live
+const WIDGET_SAMPLES: Record<Exclude<WidgetType, "clock" | "date">, { icon: string; value: string }> = {
+  heartRate: { icon: "♥", value: "72 bpm" },
+  steps: { icon: "👣", value: "6,420" },
+  weather: { icon: "☀", value: "18°" },
+  battery: { icon: "🔋", value: "85%" },
+  notifications: { icon: "✉", value: "3" }
+};
+
+const useNow = (enabled: boolean) => {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [enabled]);
+  return now;
+};
+
+export default function WatchFacePreview({ config, size = 160 }: WatchFacePreviewProps) {
+  const live = config.widgets.some(placement => placement.widget === "clock" || placement.widget === "date");
+  const now = useNow(live);
+  const { rows, columns } = getGridSize(config.grid);
+
+  const renderWidget = (widget: WidgetType) => {
+    switch (widget) {
+      case "clock":
+        return (
+          <span className="preview-clock">
+            {now.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+          </span>
+        );
+      case "date":
+        return <span>{now.toLocaleDateString([], { weekday: "short", day: "numeric" })}</span>;
+      default: {
+        const sample = WIDGET_SAMPLES[widget];
+        return (
+          <span>
+            <span style={{ color: config.colors.accent }}>{sample.icon}</span> {sample.value}
+          </span>
+        );
+      }
+    }
+  };
+
+  return (
+    <div
+      className={`watch-preview ${config.shape}`}
+      style={{
+        width: size,
+        height: size,
+        fontSize: size / 12,
+        backgroundColor: config.colors.background,
+        color: config.colors.foreground,
+        borderColor: config.colors.accent
+      }}
+    >
+      <div
+        className="watch-preview-grid"
+        style={{ gridTemplateRows: `repeat(${rows}, 1fr)`, gridTemplateColumns: `repeat(${columns}, 1fr)` }}
+      >
+        {getGridSlots(config.grid).map(slot => {
+          const placement = config.widgets.find(widget => widget.slot === slot);
+          return (
+            <div key={slot} className="watch-preview-slot">
+              {placement && renderWidget(placement.widget)}
+            </div>
+          );
+        })}
+      </div>
+      {config.complications.length > 0 && (
+        <div className="watch-preview-complications">
+          {config.complications.map(complication => (
+            <span
+              key={complication.type}
+              title={COMPLICATIONS[complication.type].label}
+              style={{ borderColor: config.colors.accent }}
+            >
+              {complication.value === null ? "🔒" : complication.value}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,10 +3,21 @@ import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
 
+// Written by deploy/deploy.ts; fields added since older deployments are optional
+export interface DeploymentConfig {
+  network: string;
+  contractAddress: string;
+  smartWatchUIAddress?: string;
+  watchFaceRegistryAddress?: string;
+  deployer?: string;
+  // Block the contracts were deployed in, where the activity indexer starts
+  deploymentBlock?: number;
+}
+
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const config: DeploymentConfig = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+export const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
   } catch (e) {
@@ -18,7 +29,7 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
+export const getTestnetProvider = async () => {
   const rpcUrls = [
     "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
     "https://rpc.sepolia.org",
@@ -0,0 +1,251 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+
+const MAX_UINT32 = 0xffffffff;
+const USER_DECRYPT_DURATION_DAYS = 1;
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+// Anything that can turn plaintext values into ciphertext handles plus an input
+// proof bound to (contract, user), and decrypt handles the user has been granted
+// access to. The relayer implementation is used in the app; the mock keeps the
+// plaintexts in memory for local runs and tests.
+export interface FheEncryptor {
+  readonly name: string;
+  encryptUint32(contractAddress: string, userAddress: string, values: number[]): Promise<EncryptedInputs>;
+  // Decrypts for `signer` only: the plaintexts never go on-chain.
+  userDecrypt(contractAddress: string, signer: ethers.Signer, handles: string[]): Promise<Record<string, bigint>>;
+}
+
+export interface EncryptedConfig {
+  scheme: string;
+  contract: string;
+  template: unknown;
+  fields: string[];
+  handles: string[];
+  inputProof: string;
+}
+
+// A signed user-decryption authorization and the keypair it was issued for
+interface UserDecryptPermit {
+  keypair: { publicKey: string; privateKey: string };
+  // EIP-712 signature without its 0x prefix, as the relayer expects it
+  signature: string;
+  startTimestamp: number;
+  // Milliseconds since the epoch
+  expiresAt: number;
+}
+
+const assertUint32 = (value: number, label: string) => {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new Error(`${label} must be a whole number between 0 and ${MAX_UINT32}`);
+  }
+};
+
+export function createRelayerEncryptor(network: ethers.Eip1193Provider): FheEncryptor {
+  let instance: Promise<FhevmInstance> | null = null;
+
+  const getInstance = () => {
+    if (!instance) {
+      instance = (async () => {
+        const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+        await initSDK();
+        return createInstance({ ...SepoliaConfig, network });
+      })();
+      instance.catch(() => {
+        instance = null;
+      });
+    }
+    return instance;
+  };
+
+  // One EIP-712 signature authorizes user decryption for a while, so cache it
+  // per (user, contract) rather than prompting the wallet on every decrypt.
+  const permits = new Map<string, Promise<UserDecryptPermit>>();
+
+  const getPermit = (fhevm: FhevmInstance, contractAddress: string, signer: ethers.Signer, userAddress: string) => {
+    const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+    let permit = permits.get(key);
+    if (!permit) {
+      permit = (async (): Promise<UserDecryptPermit> => {
+        const keypair = fhevm.generateKeypair();
+        const startTimestamp = Math.floor(Date.now() / 1000);
+        const eip712 = fhevm.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, USER_DECRYPT_DURATION_DAYS);
+        const signature = await signer.signTypedData(
+          eip712.domain,
+          { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+          eip712.message
+        );
+        return {
+          keypair,
+          signature: signature.replace("0x", ""),
+          startTimestamp,
+          expiresAt: (startTimestamp + USER_DECRYPT_DURATION_DAYS * 86400) * 1000
+        };
+      })();
+      permits.set(key, permit);
+      permit.catch(() => permits.delete(key));
+    }
+    return permit;
+  };
+
+  return {
+    name: "relayer",
+    async encryptUint32(contractAddress, userAddress, values) {
+      values.forEach((value, i) => assertUint32(value, `Value #${i}`));
+      const fhevm = await getInstance();
+      const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+      values.forEach(value => input.add32(value));
+      const { handles, inputProof } = await input.encrypt();
+      return {
+        handles: handles.map(handle => ethers.hexlify(handle)),
+        inputProof: ethers.hexlify(inputProof)
+      };
+    },
+    async userDecrypt(contractAddress, signer, handles) {
+      const fhevm = await getInstance();
+      const userAddress = await signer.getAddress();
+      let permit = await getPermit(fhevm, contractAddress, signer, userAddress);
+      if (Date.now() >= permit.expiresAt) {
+        permits.delete(`${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`);
+        permit = await getPermit(fhevm, contractAddress, signer, userAddress);
+      }
+
+      const results = await fhevm.userDecrypt(
+        handles.map(handle => ({ handle, contractAddress })),
+        permit.keypair.privateKey,
+        permit.keypair.publicKey,
+        permit.signature,
+        [contractAddress],
+        userAddress,
+        permit.startTimestamp,
+        USER_DECRYPT_DURATION_DAYS
+      );
+      return Object.fromEntries(handles.map(handle => [handle, BigInt(results[handle])]));
+    }
+  };
+}
+
+export interface MockEncryptor extends FheEncryptor {
+  decrypt(handle: string): number | undefined;
+}
+
+export function createMockEncryptor(): MockEncryptor {
+  const plaintexts = new Map<string, number>();
+  let nonce = 0;
+
+  return {
+    name: "mock",
+    async encryptUint32(contractAddress, userAddress, values) {
+      values.forEach((value, i) => assertUint32(value, `Value #${i}`));
+      const handles = values.map((value, i) => {
+        const handle = ethers.solidityPackedKeccak256(
+          ["address", "address", "uint32", "uint256", "uint256"],
+          [contractAddress, userAddress, value, i, nonce]
+        );
+        plaintexts.set(handle, value);
+        return handle;
+      });
+      nonce++;
+      return { handles, inputProof: "0x" };
+    },
+    async userDecrypt(contractAddress, signer, handles) {
+      return Object.fromEntries(
+        handles.map(handle => {
+          const value = plaintexts.get(handle);
+          if (value === undefined) {
+            throw new Error(`Unknown handle ${handle}`);
+          }
+          return [handle, BigInt(value)];
+        })
+      );
+    },
+    decrypt(handle) {
+      return plaintexts.get(handle);
+    }
+  };
+}
+
+let activeEncryptor: FheEncryptor | null = null;
+
+export function setEncryptor(encryptor: FheEncryptor | null) {
+  activeEncryptor = encryptor;
+}
+
+export function getEncryptor(): FheEncryptor {
+  if (!activeEncryptor) {
+    if (!(window as any).ethereum) {
+      throw new Error("No injected wallet");
+    }
+    activeEncryptor = createRelayerEncryptor((window as any).ethereum);
+  }
+  return activeEncryptor;
+}
+
+// Walks a config object and pulls every numeric leaf out into a flat list,
+// leaving an index placeholder in its place so the shape can be rebuilt.
+function extractNumericFields(value: unknown, path: string, fields: string[], values: number[]): unknown {
+  if (typeof value === "number") {
+    assertUint32(value, `"${path || "config"}"`);
+    fields.push(path);
+    values.push(value);
+    return { $fhe: fields.length - 1 };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => extractNumericFields(item, `${path}[${i}]`, fields, values));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        extractNumericFields(item, path ? `${path}.${key}` : key, fields, values)
+      ])
+    );
+  }
+  return value;
+}
+
+// Encrypts the numeric values of a watch face config for `contractAddress`.
+// Non-numeric values (labels, colors) stay in the template in the clear.
+export async function encryptConfig(
+  encryptor: FheEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  config: unknown
+): Promise<EncryptedConfig> {
+  const fields: string[] = [];
+  const values: number[] = [];
+  const template = extractNumericFields(config, "", fields, values);
+  const { handles, inputProof } = values.length > 0
+    ? await encryptor.encryptUint32(contractAddress, userAddress, values)
+    : { handles: [], inputProof: "0x" };
+
+  return {
+    scheme: encryptor.name,
+    contract: contractAddress,
+    template,
+    fields,
+    handles,
+    inputProof
+  };
+}
+
+// Decrypts the values of an encrypted config for `signer`, by field index.
+// Handles are decrypted one by one so those the signer has no access to only
+// leave their own value null; the cached permit keeps it to one wallet prompt.
+export async function decryptConfigValues(
+  encryptor: FheEncryptor,
+  signer: ethers.Signer,
+  encrypted: EncryptedConfig
+): Promise<(number | null)[]> {
+  const results = await Promise.allSettled(
+    encrypted.handles.map(handle => encryptor.userDecrypt(encrypted.contract, signer, [handle]))
+  );
+  return results.map((result, i) =>
+    result.status === "fulfilled" ? Number(result.value[encrypted.handles[i]]) : null
+  );
+}
@@ -0,0 +1,224 @@
+// indexer.ts
+import { ethers } from "ethers";
+import { ABI, config, retry } from "./contract";
+import { SMART_WATCH_UI_ABI, isSmartWatchUIConfigured, smartWatchUIAddress } from "./smartWatchUI";
+import { WATCH_FACE_REGISTRY_ABI, isWatchFaceRegistryConfigured, watchFaceRegistryAddress } from "./registry";
+
+export type ActivitySource = "SmartWatchUI" | "UniversalAdapter" | "WatchFaceRegistry";
+
+export interface ActivityEvent {
+  id: string;
+  source: ActivitySource;
+  name: string;
+  account: string;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  args: Record<string, string>;
+}
+
+interface ActivityCursor {
+  nextBlock: number;
+  events: ActivityEvent[];
+}
+
+// Events that describe something an account did, and the argument naming it.
+const TRACKED_EVENTS: Record<ActivitySource, Record<string, string>> = {
+  SmartWatchUI: {
+    ProfileUpdated: "user",
+    ProfileReset: "user",
+    LayoutComputed: "user",
+    DecryptionRequested: "user",
+    DecryptionCancelled: "user",
+    LayoutRevealed: "user",
+    ComponentWeightsReset: "user",
+    NotificationPreferencesUpdated: "user",
+    NotificationClassified: "user",
+    WatchFaceValuesStored: "user"
+  },
+  UniversalAdapter: {
+    DataStored: "sender"
+  },
+  WatchFaceRegistry: {
+    WatchFaceRegistered: "owner",
+    WatchFaceActivated: "account",
+    WatchFaceVersionAdded: "owner",
+    WatchFaceRolledBack: "owner"
+  }
+};
+
+const BLOCK_RANGE = 2000;
+// Without a deployment block in config.json, only look back about a week.
+const DEFAULT_LOOKBACK_BLOCKS = 50000;
+const MAX_STORED_EVENTS = 1000;
+
+const cursorKey = () =>
+  `smartwatch-activity:${config.contractAddress}:${smartWatchUIAddress}:${watchFaceRegistryAddress}`.toLowerCase();
+
+function loadCursor(): ActivityCursor | null {
+  try {
+    const stored = localStorage.getItem(cursorKey());
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.warn("Discarding unreadable activity cursor:", e);
+    return null;
+  }
+}
+
+function saveCursor(cursor: ActivityCursor) {
+  try {
+    localStorage.setItem(cursorKey(), JSON.stringify(cursor));
+  } catch (e) {
+    console.warn("Failed to persist activity cursor:", e);
+  }
+}
+
+export function resetActivityCursor() {
+  localStorage.removeItem(cursorKey());
+}
+
+export function getCachedActivity(): ActivityEvent[] {
+  return loadCursor()?.events ?? [];
+}
+
+export function getIndexedContracts(provider: ethers.Provider) {
+  const contracts: { source: ActivitySource; contract: ethers.Contract }[] = [];
+  if (ethers.isAddress(config.contractAddress)) {
+    contracts.push({ source: "UniversalAdapter", contract: new ethers.Contract(config.contractAddress, ABI, provider) });
+  }
+  if (isSmartWatchUIConfigured()) {
+    contracts.push({ source: "SmartWatchUI", contract: new ethers.Contract(smartWatchUIAddress, SMART_WATCH_UI_ABI, provider) });
+  }
+  if (isWatchFaceRegistryConfigured()) {
+    contracts.push({
+      source: "WatchFaceRegistry",
+      contract: new ethers.Contract(watchFaceRegistryAddress, WATCH_FACE_REGISTRY_ABI, provider)
+    });
+  }
+  return contracts;
+}
+
+// Flattens event arguments into strings; raw bytes are reduced to their size.
+function serializeArgs(log: ethers.EventLog): Record<string, string> {
+  const args: Record<string, string> = {};
+  log.fragment.inputs.forEach((input, i) => {
+    const value = log.args[i];
+    args[input.name] = input.type === "bytes" ? `${ethers.dataLength(value)} bytes` : String(value);
+  });
+  return args;
+}
+
+// Converts a decoded log into an activity entry, or null for events the
+// timeline does not track. Block timestamps are memoized in `blockTimestamps`.
+export async function toActivityEvent(
+  provider: ethers.Provider,
+  source: ActivitySource,
+  log: ethers.Log | ethers.EventLog,
+  blockTimestamps = new Map<number, number>()
+): Promise<ActivityEvent | null> {
+  if (!(log instanceof ethers.EventLog)) return null;
+  const accountArg = TRACKED_EVENTS[source][log.eventName];
+  if (!accountArg) return null;
+
+  if (!blockTimestamps.has(log.blockNumber)) {
+    const block = await retry(() => provider.getBlock(log.blockNumber));
+    blockTimestamps.set(log.blockNumber, block?.timestamp ?? 0);
+  }
+  const args = serializeArgs(log);
+  return {
+    id: `${log.transactionHash}:${log.index}`,
+    source,
+    name: log.eventName,
+    account: args[accountArg].toLowerCase(),
+    blockNumber: log.blockNumber,
+    timestamp: blockTimestamps.get(log.blockNumber)!,
+    transactionHash: log.transactionHash,
+    args
+  };
+}
+
+// Scans the contracts' logs from the persisted cursor up to the latest block,
+// `BLOCK_RANGE` blocks at a time, saving the cursor after every range so an
+// interrupted sync resumes where it stopped. Returns every indexed event,
+// oldest first.
+export async function syncActivity(
+  provider: ethers.Provider,
+  onProgress?: (scannedBlock: number, latestBlock: number) => void
+): Promise<ActivityEvent[]> {
+  const contracts = getIndexedContracts(provider);
+  const latestBlock = await retry(() => provider.getBlockNumber());
+  const startBlock = config.deploymentBlock || Math.max(latestBlock - DEFAULT_LOOKBACK_BLOCKS, 0);
+  const cursor = loadCursor() ?? { nextBlock: startBlock, events: [] };
+  const blockTimestamps = new Map<number, number>();
+
+  for (let fromBlock = cursor.nextBlock; fromBlock <= latestBlock; fromBlock += BLOCK_RANGE) {
+    const toBlock = Math.min(fromBlock + BLOCK_RANGE - 1, latestBlock);
+    const batches = await Promise.all(
+      contracts.map(async ({ source, contract }) => {
+        const logs = await retry(() => contract.queryFilter("*", fromBlock, toBlock));
+        const events: ActivityEvent[] = [];
+        for (const log of logs) {
+          const event = await toActivityEvent(provider, source, log, blockTimestamps);
+          if (event) events.push(event);
+        }
+        return events;
+      })
+    );
+    cursor.events = mergeActivity(cursor.events, batches.flat()).slice(-MAX_STORED_EVENTS);
+    cursor.nextBlock = toBlock + 1;
+    saveCursor(cursor);
+    onProgress?.(toBlock, latestBlock);
+  }
+
+  return cursor.events;
+}
+
+// Appends events not yet in `events`, keeping oldest-first order.
+export function mergeActivity(events: ActivityEvent[], incoming: ActivityEvent[]): ActivityEvent[] {
+  const known = new Set(events.map(event => event.id));
+  const fresh = incoming.filter(event => !known.has(event.id));
+  if (fresh.length === 0) return events;
+  return [...events, ...fresh].sort((a, b) => a.blockNumber - b.blockNumber || a.id.localeCompare(b.id));
+}
+
+export function getAccountActivity(events: ActivityEvent[], account: string): ActivityEvent[] {
+  const normalized = account.toLowerCase();
+  return events.filter(event => event.account === normalized);
+}
+
+export function describeActivity(event: ActivityEvent): string {
+  switch (event.name) {
+    case "ProfileUpdated":
+      return "Submitted an encrypted profile observation";
+    case "ProfileReset":
+      return "Reset the encrypted profile";
+    case "LayoutComputed":
+      return `Computed layout v${event.args.version}`;
+    case "DecryptionRequested":
+      return `Requested public decryption #${event.args.requestId}`;
+    case "DecryptionCancelled":
+      return `Cancelled expired decryption #${event.args.requestId}`;
+    case "LayoutRevealed":
+      return `Revealed layout v${event.args.version} on-chain`;
+    case "ComponentWeightsReset":
+      return "Reset learned component weights";
+    case "NotificationPreferencesUpdated":
+      return "Updated notification preferences";
+    case "NotificationClassified":
+      return `Classified a ${event.args.category} notification`;
+    case "WatchFaceValuesStored":
+      return `Stored ${event.args.count} encrypted values for watch face ${event.args.faceId}`;
+    case "WatchFaceRegistered":
+      return `Registered watch face ${event.args.id}`;
+    case "WatchFaceActivated":
+      return `Activated watch face ${event.args.id}`;
+    case "WatchFaceVersionAdded":
+      return `Saved version ${Number(event.args.version) + 1} of watch face ${event.args.id}`;
+    case "WatchFaceRolledBack":
+      return `Rolled watch face ${event.args.id} back to version ${Number(event.args.version) + 1}`;
+    case "DataStored":
+      return `Stored ${event.args.key} (${event.args.value})`;
+    default:
+      return event.name;
+  }
+}
@@ -0,0 +1,131 @@
+// live.ts
+import { ethers } from "ethers";
+import { getTestnetProvider, retry } from "./contract";
+import { ActivityEvent, ActivitySource, getIndexedContracts, toActivityEvent } from "./indexer";
+
+export type LiveConnectionState = "connecting" | "live" | "reconnecting";
+
+export interface LiveEventHandlers {
+  onDataStored?: (key: string, value: string, event: ActivityEvent) => void;
+  onWatchFaceRegistered?: (id: string, event: ActivityEvent) => void;
+  onWatchFaceActivated?: (account: string, id: string, previousId: string, event: ActivityEvent) => void;
+  onActivity?: (event: ActivityEvent) => void;
+  onConnectionChange?: (state: LiveConnectionState) => void;
+}
+
+const HEARTBEAT_INTERVAL = 15000;
+const HEARTBEAT_TIMEOUT = 10000;
+const MAX_RECONNECT_DELAY = 60000;
+
+// Subscribes to the events tracked by the indexer. The RPC is probed every
+// `HEARTBEAT_INTERVAL`; when it stops answering, the provider is dropped and a
+// new one is requested from `getTestnetProvider` with exponential backoff,
+// replaying the logs emitted while disconnected so no update is lost. Returns
+// a function that ends the subscription.
+export function subscribeToLiveEvents(handlers: LiveEventHandlers): () => void {
+  let closed = false;
+  let provider: ethers.JsonRpcProvider | null = null;
+  let contracts: { source: ActivitySource; contract: ethers.Contract }[] = [];
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  // Replay starts after `lastBlock`. A probed block only counts once the next
+  // heartbeat succeeds, so the log poller has had time to deliver its events.
+  let lastBlock = -1;
+  let probedBlock = -1;
+  const seen = new Set<string>();
+
+  const dispatch = async (source: ActivitySource, log: ethers.Log) => {
+    if (!provider || !(log instanceof ethers.EventLog)) return;
+    try {
+      const event = await toActivityEvent(provider, source, log);
+      if (!event || seen.has(event.id)) return;
+      seen.add(event.id);
+      lastBlock = Math.max(lastBlock, event.blockNumber - 1);
+      if (event.name === "DataStored") {
+        handlers.onDataStored?.(log.args.key, log.args.value, event);
+      } else if (event.name === "WatchFaceRegistered") {
+        handlers.onWatchFaceRegistered?.(log.args.id, event);
+      } else if (event.name === "WatchFaceActivated") {
+        handlers.onWatchFaceActivated?.(log.args.account, log.args.id, log.args.previousId, event);
+      }
+      handlers.onActivity?.(event);
+    } catch (e) {
+      console.error("Error handling live event:", e);
+    }
+  };
+
+  const teardown = () => {
+    clearInterval(heartbeat);
+    probedBlock = -1;
+    contracts.forEach(({ contract }) => contract.removeAllListeners().catch(() => {}));
+    contracts = [];
+    provider?.destroy();
+    provider = null;
+  };
+
+  const scheduleReconnect = (attempt: number) => {
+    if (closed) return;
+    handlers.onConnectionChange?.("reconnecting");
+    const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY);
+    reconnectTimer = setTimeout(() => connect(attempt), delay);
+  };
+
+  const checkConnection = async () => {
+    const current = provider;
+    if (!current) return;
+    try {
+      const blockNumber = await Promise.race([
+        current.getBlockNumber(),
+        new Promise<number>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), HEARTBEAT_TIMEOUT))
+      ]);
+      lastBlock = Math.max(lastBlock, probedBlock);
+      probedBlock = blockNumber;
+    } catch (e) {
+      if (current !== provider) return;
+      console.warn("Live event RPC dropped, reconnecting:", e);
+      teardown();
+      scheduleReconnect(0);
+    }
+  };
+
+  const connect = async (attempt: number) => {
+    try {
+      const next = await getTestnetProvider();
+      if (closed) {
+        next.destroy();
+        return;
+      }
+      provider = next;
+      contracts = getIndexedContracts(next);
+
+      const latestBlock = await retry(() => next.getBlockNumber());
+      if (lastBlock >= 0 && latestBlock > lastBlock) {
+        for (const { source, contract } of contracts) {
+          const missed = await retry(() => contract.queryFilter("*", lastBlock + 1, latestBlock));
+          for (const log of missed) await dispatch(source, log);
+        }
+      }
+      lastBlock = Math.max(lastBlock, latestBlock);
+      if (closed) return teardown();
+
+      for (const { source, contract } of contracts) {
+        await contract.on("*", (payload: ethers.ContractEventPayload) => dispatch(source, payload.log));
+      }
+      heartbeat = setInterval(checkConnection, HEARTBEAT_INTERVAL);
+      handlers.onConnectionChange?.("live");
+    } catch (e) {
+      console.warn("Live event connection failed:", e);
+      teardown();
+      scheduleReconnect(attempt + 1);
+    }
+  };
+
+  handlers.onConnectionChange?.("connecting");
+  connect(0);
+
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    teardown();
+  };
+}
@@ -0,0 +1,47 @@
+// multicall.ts
+import { ethers } from "ethers";
+import { retry } from "./contract";
+
+// Multicall3 is deployed at the same address on Sepolia and most other chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)"
+];
+
+// Keeps each eth_call well under public RPC gas and payload limits
+const MAX_CALLS_PER_BATCH = 100;
+
+export interface ReadCall {
+  method: string;
+  args: unknown[];
+}
+
+// Runs view calls against `contract` through Multicall3, one eth_call per
+// `MAX_CALLS_PER_BATCH` calls. Each call's first return value comes back in
+// call order, or null when that call reverted.
+export async function multicallRead(contract: ethers.Contract, calls: ReadCall[]): Promise<unknown[]> {
+  const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, contract.runner);
+  const target = await contract.getAddress();
+  const values: unknown[] = [];
+
+  for (let i = 0; i < calls.length; i += MAX_CALLS_PER_BATCH) {
+    const batch = calls.slice(i, i + MAX_CALLS_PER_BATCH);
+    const results = await retry(() =>
+      multicall.aggregate3.staticCall(
+        batch.map(call => ({
+          target,
+          allowFailure: true,
+          callData: contract.interface.encodeFunctionData(call.method, call.args)
+        }))
+      )
+    );
+    results.forEach((result: ethers.Result, j: number) => {
+      values.push(
+        result.success ? contract.interface.decodeFunctionResult(batch[j].method, result.returnData)[0] : null
+      );
+    });
+  }
+
+  return values;
+}
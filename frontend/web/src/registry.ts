@@ -0,0 +1,126 @@
+// registry.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/WatchFaceRegistry.json";
+import { config, getTestnetProvider, retry } from "./contract";
+import { multicallRead } from "./multicall";
+
+export const WATCH_FACE_REGISTRY_ABI = (abiJson as any).abi || abiJson;
+export const watchFaceRegistryAddress: string = config.watchFaceRegistryAddress || "";
+
+export function isWatchFaceRegistryConfigured() {
+  return ethers.isAddress(watchFaceRegistryAddress);
+}
+
+export async function getWatchFaceRegistryReadOnly() {
+  if (!isWatchFaceRegistryConfigured()) {
+    return null;
+  }
+  try {
+    const provider = await getTestnetProvider();
+    const contract = new ethers.Contract(watchFaceRegistryAddress, WATCH_FACE_REGISTRY_ABI, provider);
+
+    const code = await retry(() => provider.getCode(watchFaceRegistryAddress));
+    if (code === "0x") {
+      return null;
+    }
+
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only WatchFaceRegistry contract:", error);
+    return null;
+  }
+}
+
+export async function getWatchFaceRegistryWithSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!isWatchFaceRegistryConfigured()) {
+    throw new Error("WatchFaceRegistry address missing from config.json");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(watchFaceRegistryAddress, WATCH_FACE_REGISTRY_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create WatchFaceRegistry contract with signer:", error);
+    throw error;
+  }
+}
+
+// Fetches registered ids newest first, skipping the `offset` newest ones.
+export async function fetchWatchFaceIds(
+  registry: ethers.Contract,
+  offset: number,
+  limit: number
+): Promise<{ ids: string[]; total: number }> {
+  const total = Number(await retry(() => registry.getWatchFaceCount()));
+  const end = Math.max(total - offset, 0);
+  const start = Math.max(end - limit, 0);
+  const ids: string[] = end > start ? await retry(() => registry.getWatchFaceIds(start, end - start)) : [];
+  return { ids: [...ids].reverse(), total };
+}
+
+export async function registerWatchFace(registry: ethers.Contract, id: string) {
+  const tx = await registry.registerWatchFace(id);
+  await tx.wait();
+}
+
+// Activation is a single call that replaces the caller's previous active face.
+export async function activateWatchFace(registry: ethers.Contract, id: string) {
+  const tx = await registry.activateWatchFace(id);
+  await tx.wait();
+}
+
+export async function fetchActiveWatchFace(registry: ethers.Contract, account: string): Promise<string> {
+  return retry(() => registry.getActiveWatchFace(account));
+}
+
+// Reads the registered owner of each face, address(0) for unknown ids, in one batched read.
+export async function fetchWatchFaceOwners(registry: ethers.Contract, ids: string[]): Promise<string[]> {
+  const owners = await multicallRead(registry, ids.map(id => ({ method: "ownerOf", args: [id] })));
+  return owners.map(owner => (owner as string | null) ?? ethers.ZeroAddress);
+}
+
+// Reads how many accounts currently have each face active, in one batched read.
+export async function fetchActivationCounts(registry: ethers.Contract, ids: string[]): Promise<number[]> {
+  const counts = await multicallRead(registry, ids.map(id => ({ method: "getActivationCount", args: [id] })));
+  return counts.map(count => Number(count ?? 0));
+}
+
+export interface WatchFaceVersionInfo {
+  version: number;
+  configHash: string;
+  timestamp: number;
+}
+
+// Lists a face's versions oldest first, with the index of the current one
+// (-1 for faces saved before versioning).
+export async function fetchWatchFaceVersions(
+  registry: ethers.Contract,
+  id: string
+): Promise<{ versions: WatchFaceVersionInfo[]; current: number }> {
+  const count = Number(await retry(() => registry.getVersionCount(id)));
+  if (count === 0) {
+    return { versions: [], current: -1 };
+  }
+  const [current, ...entries] = await multicallRead(registry, [
+    { method: "getCurrentVersion", args: [id] },
+    ...Array.from({ length: count }, (_, version) => ({ method: "getVersion", args: [id, version] }))
+  ]);
+  const versions = entries.map((entry, version) => {
+    const { configHash, timestamp } = entry as ethers.Result;
+    return { version, configHash, timestamp: Number(timestamp) };
+  });
+  return { versions, current: Number(current) };
+}
+
+export async function addWatchFaceVersion(registry: ethers.Contract, id: string, configHash: string) {
+  const tx = await registry.addWatchFaceVersion(id, configHash);
+  await tx.wait();
+}
+
+export async function rollbackWatchFace(registry: ethers.Contract, id: string, version: number) {
+  const tx = await registry.rollbackWatchFace(id, version);
+  await tx.wait();
+}
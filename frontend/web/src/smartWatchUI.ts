@@ -0,0 +1,402 @@
+// smartWatchUI.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/SmartWatchUI.json";
+import { config, getTestnetProvider, retry } from "./contract";
+import { EncryptedConfig, FheEncryptor } from "./fhe";
+
+export const SMART_WATCH_UI_ABI = (abiJson as any).abi || abiJson;
+export const smartWatchUIAddress: string = config.smartWatchUIAddress || "";
+
+// Bits per component priority in the packed layout config, as in the contract.
+const PRIORITY_BITS = 4n;
+
+export type LayoutStage = "no-profile" | "profile" | "computed" | "revealed";
+
+export interface LayoutState {
+  hasProfile: boolean;
+  profileTimestamp: number;
+  isComputed: boolean;
+  isRevealed: boolean;
+  encryptedLayout: string;
+  layoutVersion: number;
+  revealedLayout: RevealedLayout | null;
+}
+
+export interface RevealedLayout {
+  version: number;
+  entries: LayoutEntry[];
+}
+
+export interface LayoutVersion {
+  version: number;
+  timestamp: number;
+  encryptedLayout: string;
+  components: string[];
+}
+
+// Plaintext profile signals; they only leave the browser encrypted.
+export interface ProfileValues {
+  activityPattern: number;
+  notificationPref: number;
+  stepCount: number;
+  restingHeartRate: number;
+  sleepDuration: number;
+  appInteractions: { app: string; count: number }[];
+}
+
+// Multipliers in units of `SIGNAL_WEIGHT_SCALE` (100 counts a signal once).
+export interface SignalWeights {
+  activity: number;
+  notifications: number;
+  steps: number;
+  restingHeartRate: number;
+  sleep: number;
+  appInteractions: number;
+}
+
+// Public decryption request states, in the order of the contract's enum.
+export const DECRYPTION_STATUSES = ["none", "pending", "fulfilled", "expired"] as const;
+export type DecryptionStatus = (typeof DECRYPTION_STATUSES)[number];
+
+export interface DecryptionRequestState {
+  status: DecryptionStatus;
+  requestId: bigint;
+  requestedAt: number;
+}
+
+// Delivery tiers, in the order of the contract's TIER_* constants.
+export const NOTIFICATION_TIERS = ["suppress", "batch", "immediate"] as const;
+export type NotificationTier = (typeof NOTIFICATION_TIERS)[number];
+
+export interface LayoutEntry {
+  component: string;
+  priority: number;
+}
+
+export function isSmartWatchUIConfigured() {
+  return ethers.isAddress(smartWatchUIAddress);
+}
+
+export async function getSmartWatchUIReadOnly() {
+  if (!isSmartWatchUIConfigured()) {
+    return null;
+  }
+  try {
+    const provider = await getTestnetProvider();
+    const contract = new ethers.Contract(smartWatchUIAddress, SMART_WATCH_UI_ABI, provider);
+
+    const code = await retry(() => provider.getCode(smartWatchUIAddress));
+    if (code === "0x") {
+      return null;
+    }
+
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only SmartWatchUI contract:", error);
+    return null;
+  }
+}
+
+export async function getSmartWatchUIWithSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!isSmartWatchUIConfigured()) {
+    throw new Error("SmartWatchUI address missing from config.json");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(smartWatchUIAddress, SMART_WATCH_UI_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create SmartWatchUI contract with signer:", error);
+    throw error;
+  }
+}
+
+// Reads the profile, layout and reveal flags the contract keeps for `user`.
+export async function fetchLayoutState(contract: ethers.Contract, user: string): Promise<LayoutState> {
+  const [profile, layout, revealed] = await Promise.all([
+    retry(() => contract.userProfiles(user)),
+    retry(() => contract.uiLayouts(user)),
+    retry(() => contract.decryptedLayouts(user))
+  ]);
+
+  return {
+    hasProfile: profile.user !== ethers.ZeroAddress,
+    profileTimestamp: Number(profile.timestamp),
+    isComputed: layout.isComputed,
+    isRevealed: revealed.isRevealed,
+    encryptedLayout: layout.encryptedLayoutConfig,
+    layoutVersion: Number(layout.version),
+    revealedLayout: revealed.isRevealed ? await fetchRevealedLayout(contract, user) : null
+  };
+}
+
+// Reads the layout the decryption oracle revealed on-chain for `user`.
+export async function fetchRevealedLayout(contract: ethers.Contract, user: string): Promise<RevealedLayout> {
+  const [version, components, priorities] = await retry(() => contract.getRevealedLayout(user));
+  return {
+    version: Number(version),
+    entries: toLayoutEntries([...components], [...priorities].map(Number))
+  };
+}
+
+// Lists the layout versions the contract still keeps for `user`, newest first.
+export async function fetchLayoutHistory(contract: ethers.Contract, user: string): Promise<LayoutVersion[]> {
+  const [oldest, latest] = await retry(() => contract.getLayoutVersionRange(user));
+  if (latest === 0n) {
+    return [];
+  }
+
+  const versions: number[] = [];
+  for (let version = Number(latest); version >= Number(oldest); version--) {
+    versions.push(version);
+  }
+  return Promise.all(
+    versions.map(async version => {
+      const entry = await retry(() => contract.getLayoutVersion(user, version));
+      return {
+        version,
+        timestamp: Number(entry.timestamp),
+        encryptedLayout: entry.encryptedLayoutConfig,
+        components: [...entry.components]
+      };
+    })
+  );
+}
+
+export interface ComponentCatalog {
+  owner: string;
+  components: string[];
+}
+
+export async function fetchComponentCatalog(contract: ethers.Contract): Promise<ComponentCatalog> {
+  const [owner, components] = await Promise.all([
+    retry(() => contract.owner()),
+    retry(() => contract.getComponents())
+  ]);
+  return { owner, components: [...components] };
+}
+
+export function getLayoutStage(state: LayoutState | null): LayoutStage {
+  if (!state || !state.hasProfile) return "no-profile";
+  if (state.isRevealed) return "revealed";
+  if (state.isComputed) return "computed";
+  return "profile";
+}
+
+// Encrypts the observation for `user` in a single input so one proof covers
+// every handle, then submits it to `updateProfileWithProof`. The contract folds
+// it into the running profile rather than replacing it.
+export async function updateProfile(
+  contract: ethers.Contract,
+  encryptor: FheEncryptor,
+  user: string,
+  profile: ProfileValues
+) {
+  const { handles, inputProof } = await encryptor.encryptUint32(smartWatchUIAddress, user, [
+    profile.activityPattern,
+    profile.notificationPref,
+    profile.stepCount,
+    profile.restingHeartRate,
+    profile.sleepDuration,
+    ...profile.appInteractions.map(entry => entry.count)
+  ]);
+
+  const tx = await contract.updateProfileWithProof(
+    handles[0],
+    handles[1],
+    handles[2],
+    handles[3],
+    handles[4],
+    profile.appInteractions.map(entry => entry.app),
+    handles.slice(5),
+    inputProof
+  );
+  return tx.wait();
+}
+
+export async function computeUILayout(contract: ethers.Contract) {
+  const tx = await contract.computeUILayout();
+  return tx.wait();
+}
+
+export async function resetProfile(contract: ethers.Contract) {
+  const tx = await contract.resetProfile();
+  return tx.wait();
+}
+
+export async function resetComponentWeights(contract: ethers.Contract) {
+  const tx = await contract.resetComponentWeights();
+  return tx.wait();
+}
+
+export async function fetchSignalWeights(contract: ethers.Contract): Promise<SignalWeights> {
+  const weights = await retry(() => contract.signalWeights());
+  return {
+    activity: Number(weights.activity),
+    notifications: Number(weights.notifications),
+    steps: Number(weights.steps),
+    restingHeartRate: Number(weights.restingHeartRate),
+    sleep: Number(weights.sleep),
+    appInteractions: Number(weights.appInteractions)
+  };
+}
+
+// Catalog and signal weight management are restricted to the contract owner.
+export async function setSignalWeights(contract: ethers.Contract, weights: SignalWeights) {
+  const tx = await contract.setSignalWeights(weights);
+  return tx.wait();
+}
+
+export async function addComponent(contract: ethers.Contract, name: string) {
+  const tx = await contract.addComponent(name);
+  return tx.wait();
+}
+
+export async function retireComponent(contract: ethers.Contract, name: string) {
+  const tx = await contract.retireComponent(name);
+  return tx.wait();
+}
+
+export async function reorderComponents(contract: ethers.Contract, components: string[]) {
+  const tx = await contract.reorderComponents(components);
+  return tx.wait();
+}
+
+export async function requestLayoutDecryption(contract: ethers.Contract) {
+  const tx = await contract.requestLayoutDecryption();
+  return tx.wait();
+}
+
+// Only succeeds once the request has been pending for `DECRYPTION_TIMEOUT`.
+export async function cancelLayoutDecryption(contract: ethers.Contract) {
+  const tx = await contract.cancelLayoutDecryption();
+  return tx.wait();
+}
+
+export async function fetchDecryptionStatus(contract: ethers.Contract, user: string): Promise<DecryptionRequestState> {
+  const [status, requestId, requestedAt] = await retry(() => contract.getDecryptionStatus(user));
+  return {
+    status: DECRYPTION_STATUSES[Number(status)],
+    requestId,
+    requestedAt: Number(requestedAt)
+  };
+}
+
+// Decrypts the caller's layout client-side with an EIP-712 signed keypair. The
+// result stays in the browser; nothing is written back to the contract.
+export async function decryptLayoutPrivately(
+  contract: ethers.Contract,
+  encryptor: FheEncryptor,
+  signer: ethers.Signer
+): Promise<LayoutEntry[]> {
+  const user = await signer.getAddress();
+  const [handle, components] = await Promise.all([
+    contract.getEncryptedLayout(),
+    retry(() => contract.getLayoutComponents(user))
+  ]);
+  const values = await encryptor.userDecrypt(smartWatchUIAddress, signer, [handle]);
+  return decodeLayout(values[handle], [...components]);
+}
+
+// Decrypts one entry of the layout history; every version stays readable by its user.
+export async function decryptLayoutVersion(
+  encryptor: FheEncryptor,
+  signer: ethers.Signer,
+  layout: LayoutVersion
+): Promise<LayoutEntry[]> {
+  const values = await encryptor.userDecrypt(smartWatchUIAddress, signer, [layout.encryptedLayout]);
+  return decodeLayout(values[layout.encryptedLayout], layout.components);
+}
+
+// Unpacks the per-component priorities of a decrypted layout config, where
+// each is stored minus one.
+export function decodeLayout(config: bigint, components: string[]): LayoutEntry[] {
+  const mask = (1n << PRIORITY_BITS) - 1n;
+  return toLayoutEntries(
+    components,
+    components.map((_, i) => Number((config >> (BigInt(i) * PRIORITY_BITS)) & mask) + 1)
+  );
+}
+
+// Pairs components with their priorities, ordered by slot: priority 1 is the
+// component the watch shows first.
+export function toLayoutEntries(components: string[], priorities: number[]): LayoutEntry[] {
+  return components
+    .map((component, i) => ({ component, priority: priorities[i] }))
+    .sort((a, b) => a.priority - b.priority);
+}
+
+// Human-readable rendering of the revealed layout, for debugging only.
+// Must be called on a signer-backed contract: the view reads `msg.sender`.
+export async function getDecryptedLayout(contract: ethers.Contract): Promise<string> {
+  return contract.getDecryptedLayout();
+}
+
+// Polls until the decryption oracle has called back with the revealed layout.
+export async function waitForLayoutReveal(
+  contract: ethers.Contract,
+  user: string,
+  timeoutMs = 180000,
+  intervalMs = 5000
+): Promise<RevealedLayout> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const revealed = await retry(() => contract.decryptedLayouts(user));
+    if (revealed.isRevealed) {
+      return fetchRevealedLayout(contract, user);
+    }
+    const { status } = await fetchDecryptionStatus(contract, user);
+    if (status === "expired") {
+      throw new Error("Decryption request expired; cancel it to retry");
+    }
+    await new Promise(res => setTimeout(res, intervalMs));
+  }
+  throw new Error("Timed out waiting for layout decryption");
+}
+
+export async function setNotificationPreferences(
+  contract: ethers.Contract,
+  encryptor: FheEncryptor,
+  user: string,
+  preferences: { app: string; level: number }[]
+) {
+  const { handles, inputProof } = await encryptor.encryptUint32(
+    smartWatchUIAddress,
+    user,
+    preferences.map(entry => entry.level)
+  );
+  const tx = await contract.setNotificationPreferences(
+    preferences.map(entry => entry.app),
+    handles,
+    inputProof
+  );
+  return tx.wait();
+}
+
+// Submits the encrypted values of a watch face config so the contract verifies
+// them and grants the signer access; without this no one can decrypt them.
+export async function storeWatchFaceValues(contract: ethers.Contract, faceId: string, encrypted: EncryptedConfig) {
+  const tx = await contract.storeWatchFaceValues(faceId, encrypted.handles, encrypted.inputProof);
+  return tx.wait();
+}
+
+// Scores an incoming notification and decrypts its tier for the signer only.
+export async function classifyNotification(
+  contract: ethers.Contract,
+  encryptor: FheEncryptor,
+  signer: ethers.Signer,
+  category: string,
+  urgency: number
+): Promise<NotificationTier> {
+  const user = await signer.getAddress();
+  const { handles, inputProof } = await encryptor.encryptUint32(smartWatchUIAddress, user, [urgency]);
+  const tx = await contract.classifyNotification(category, handles[0], inputProof);
+  await tx.wait();
+
+  const tier = await retry(() => contract.getNotificationTier(user, category));
+  const values = await encryptor.userDecrypt(smartWatchUIAddress, signer, [tier]);
+  return NOTIFICATION_TIERS[Number(values[tier])];
+}
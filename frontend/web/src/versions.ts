@@ -0,0 +1,124 @@
+// versions.ts
+import { ethers } from "ethers";
+import { retry } from "./contract";
+import { EncryptedConfig } from "./fhe";
+import { multicallRead } from "./multicall";
+import { WatchFaceVersionInfo, fetchWatchFaceVersions } from "./registry";
+import { COMPLICATIONS, decodeConfigTemplate } from "./watchFaceConfig";
+
+// The JSON stored under `watchface_<id>`, and under a version key for each save
+export interface WatchFaceRecord {
+  name: string;
+  config: EncryptedConfig | string;
+  schemaVersion?: number;
+  timestamp: number;
+  updatedAt?: number;
+  owner: string;
+  category: string;
+  deleted?: boolean;
+}
+
+export interface WatchFaceVersion extends WatchFaceVersionInfo {
+  // Null when the stored record is missing or does not match the registry hash
+  record: WatchFaceRecord | null;
+}
+
+export interface VersionChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+// Version records use their own prefix so they are never read as faces
+const VERSION_PREFIX = "watchface-version_";
+
+// Keyed by the record hash the registry keeps, in the owner's adapter namespace
+export const getVersionKey = (id: string, configHash: string) => `${VERSION_PREFIX}${id}_${configHash}`;
+
+export const encodeWatchFaceRecord = (record: WatchFaceRecord) => ethers.toUtf8Bytes(JSON.stringify(record));
+
+// Writes `record` under its version key and returns the hash to record in the
+// registry. The owner can still rewrite the key, which is why readers check it
+// against that hash.
+export async function storeWatchFaceVersion(
+  contract: ethers.Contract,
+  id: string,
+  record: WatchFaceRecord
+): Promise<string> {
+  const bytes = encodeWatchFaceRecord(record);
+  const configHash = ethers.keccak256(bytes);
+  const key = getVersionKey(id, configHash);
+  // Saving the same record twice needs no second write
+  const stored: string = await retry(() => contract.getData(record.owner, key));
+  if (stored === "0x" || ethers.keccak256(stored) !== configHash) {
+    const tx = await contract.setData(key, bytes);
+    await tx.wait();
+  }
+  return configHash;
+}
+
+// Loads a face's versions from the registry along with the records its owner stored
+export async function loadWatchFaceVersions(
+  contract: ethers.Contract,
+  registry: ethers.Contract,
+  id: string,
+  owner: string
+): Promise<{ versions: WatchFaceVersion[]; current: number }> {
+  const { versions, current } = await fetchWatchFaceVersions(registry, id);
+  const values = await multicallRead(
+    contract,
+    versions.map(({ configHash }) => ({ method: "getData", args: [owner, getVersionKey(id, configHash)] }))
+  );
+  return {
+    current,
+    versions: versions.map((version, i) => {
+      const value = values[i] as string | null;
+      if (!value || ethers.keccak256(value) !== version.configHash) {
+        return { ...version, record: null };
+      }
+      try {
+        return { ...version, record: JSON.parse(ethers.toUtf8String(value)) };
+      } catch (e) {
+        return { ...version, record: null };
+      }
+    })
+  };
+}
+
+// Flattens the cleartext parts of a record into labelled values. Encrypted
+// complication values cannot be compared, only whether they are present.
+function describeRecord(record: WatchFaceRecord): Record<string, string> {
+  const fields: Record<string, string> = {
+    name: record.name,
+    category: record.category,
+    status: record.deleted ? "deleted" : "active"
+  };
+  const config = record.config && typeof record.config === "object" ? decodeConfigTemplate(record.config.template) : null;
+  if (!config) {
+    fields.config = "unstructured";
+    return fields;
+  }
+  fields.shape = config.shape;
+  fields.grid = config.grid;
+  Object.entries(config.colors).forEach(([field, color]) => {
+    fields[`${field} color`] = color;
+  });
+  config.widgets.forEach(placement => {
+    fields[`slot ${placement.slot}`] = placement.widget;
+  });
+  config.complications.forEach(complication => {
+    const { label, unit } = COMPLICATIONS[complication.type];
+    fields[label] = complication.value === null ? "encrypted" : `${complication.value} ${unit}`;
+  });
+  return fields;
+}
+
+// Lists the fields that differ between two versions, in a stable order
+export function diffWatchFaceRecords(before: WatchFaceRecord, after: WatchFaceRecord): VersionChange[] {
+  const beforeFields = describeRecord(before);
+  const afterFields = describeRecord(after);
+  const fields = [...new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])];
+  return fields
+    .filter(field => beforeFields[field] !== afterFields[field])
+    .map(field => ({ field, before: beforeFields[field] ?? "—", after: afterFields[field] ?? "—" }));
+}
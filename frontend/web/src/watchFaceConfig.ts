@@ -0,0 +1,260 @@
+// watchFaceConfig.ts
+
+// Stored next to the encrypted config in each watch face record. Records
+// without one predate the schema and hold free-form JSON.
+export const WATCH_FACE_SCHEMA_VERSION = 1;
+
+export const SCREEN_SHAPES = ["round", "square"] as const;
+export type ScreenShape = (typeof SCREEN_SHAPES)[number];
+
+// Rows x columns of widget slots
+export const LAYOUT_GRIDS = ["1x1", "2x1", "2x2", "3x3"] as const;
+export type LayoutGrid = (typeof LAYOUT_GRIDS)[number];
+
+export const WIDGETS = ["clock", "date", "heartRate", "steps", "weather", "battery", "notifications"] as const;
+export type WidgetType = (typeof WIDGETS)[number];
+
+// Personal thresholds; as the only numeric values they are the ones encrypted
+export const COMPLICATIONS = {
+  stepGoal: { label: "Step goal", unit: "steps", min: 1000, max: 100000 },
+  heartRateAlert: { label: "Heart rate alert", unit: "bpm", min: 40, max: 220 },
+  sleepTarget: { label: "Sleep target", unit: "min", min: 240, max: 720 },
+  hydrationReminder: { label: "Hydration reminder", unit: "min", min: 15, max: 240 }
+} as const;
+export type ComplicationType = keyof typeof COMPLICATIONS;
+
+export const COLOR_FIELDS = ["background", "foreground", "accent"] as const;
+export type ColorField = (typeof COLOR_FIELDS)[number];
+
+export interface WidgetPlacement {
+  slot: string;
+  widget: WidgetType;
+}
+
+export interface Complication {
+  type: ComplicationType;
+  value: number;
+}
+
+export interface WatchFaceConfig {
+  shape: ScreenShape;
+  grid: LayoutGrid;
+  colors: Record<ColorField, string>;
+  widgets: WidgetPlacement[];
+  complications: Complication[];
+}
+
+// Editor state: complication values are kept as typed so they can be invalid
+export interface WatchFaceConfigDraft extends Omit<WatchFaceConfig, "complications"> {
+  complications: { type: ComplicationType; value: string }[];
+}
+
+// What can be shown without decrypting: complication values are null when encrypted
+export interface WatchFacePreviewConfig extends Omit<WatchFaceConfig, "complications"> {
+  complications: { type: ComplicationType; value: number | null }[];
+}
+
+// Error messages keyed by field path, e.g. "colors.accent" or "widgets[1].slot"
+export type ConfigErrors = Record<string, string>;
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const CONFIG_FIELDS = ["shape", "grid", "colors", "widgets", "complications"];
+
+export function getGridSize(grid: LayoutGrid) {
+  const [rows, columns] = grid.split("x").map(Number);
+  return { rows, columns };
+}
+
+// Slots are named "<row>-<column>", counting from 1.
+export function getGridSlots(grid: LayoutGrid): string[] {
+  const { rows, columns } = getGridSize(grid);
+  const slots: string[] = [];
+  for (let row = 1; row <= rows; row++) {
+    for (let column = 1; column <= columns; column++) {
+      slots.push(`${row}-${column}`);
+    }
+  }
+  return slots;
+}
+
+export function createDefaultConfig(): WatchFaceConfig {
+  return {
+    shape: "round",
+    grid: "2x1",
+    colors: { background: "#1a1a2e", foreground: "#ffffff", accent: "#3498db" },
+    widgets: [
+      { slot: "1-1", widget: "clock" },
+      { slot: "2-1", widget: "steps" }
+    ],
+    complications: [{ type: "stepGoal", value: 10000 }]
+  };
+}
+
+// Encrypted values from a decoded template come back empty, to be re-entered
+export function configToDraft(config: WatchFaceConfig | WatchFacePreviewConfig): WatchFaceConfigDraft {
+  return {
+    ...config,
+    complications: config.complications.map(complication => ({
+      type: complication.type,
+      value: complication.value === null ? "" : String(complication.value)
+    }))
+  };
+}
+
+// Builds the config JSON from the editor state. Values that are not whole
+// numbers are passed through so validation can point at them.
+export function draftToConfig(draft: WatchFaceConfigDraft): unknown {
+  return {
+    ...draft,
+    complications: draft.complications.map(complication => ({
+      type: complication.type,
+      value: /^\d+$/.test(complication.value.trim()) ? Number(complication.value) : complication.value
+    }))
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === "string" && (options as readonly string[]).includes(value);
+
+// Checks an untrusted value against the current schema. `config` is only set
+// when there are no errors.
+export function validateWatchFaceConfig(value: unknown): { config: WatchFaceConfig | null; errors: ConfigErrors } {
+  const errors: ConfigErrors = {};
+  if (!isRecord(value)) {
+    return { config: null, errors: { config: "Configuration must be a JSON object" } };
+  }
+
+  const unknownFields = Object.keys(value).filter(key => !CONFIG_FIELDS.includes(key));
+  if (unknownFields.length > 0) {
+    errors.config = `Unknown fields: ${unknownFields.join(", ")}`;
+  }
+
+  if (!isOneOf(SCREEN_SHAPES, value.shape)) {
+    errors.shape = `Shape must be one of ${SCREEN_SHAPES.join(", ")}`;
+  }
+
+  const grid = isOneOf(LAYOUT_GRIDS, value.grid) ? value.grid : null;
+  if (!grid) {
+    errors.grid = `Grid must be one of ${LAYOUT_GRIDS.join(", ")}`;
+  }
+
+  if (!isRecord(value.colors)) {
+    errors.colors = "Colors are required";
+  } else {
+    const colors = value.colors;
+    COLOR_FIELDS.forEach(field => {
+      if (typeof colors[field] !== "string" || !HEX_COLOR.test(colors[field] as string)) {
+        errors[`colors.${field}`] = "Use a hex color like #3498db";
+      }
+    });
+  }
+
+  if (!Array.isArray(value.widgets) || value.widgets.length === 0) {
+    errors.widgets = "Place at least one widget";
+  } else {
+    const slots = grid ? getGridSlots(grid) : [];
+    const used = new Set<string>();
+    value.widgets.forEach((placement, i) => {
+      const path = `widgets[${i}]`;
+      if (!isRecord(placement)) {
+        errors[path] = "Widget placement must be an object";
+        return;
+      }
+      if (!isOneOf(WIDGETS, placement.widget)) {
+        errors[`${path}.widget`] = `Widget must be one of ${WIDGETS.join(", ")}`;
+      }
+      if (typeof placement.slot !== "string" || (grid && !slots.includes(placement.slot))) {
+        errors[`${path}.slot`] = grid ? `Slot is not part of the ${grid} grid` : "Slot is invalid";
+      } else if (used.has(placement.slot)) {
+        errors[`${path}.slot`] = "Slot already has a widget";
+      } else {
+        used.add(placement.slot);
+      }
+    });
+  }
+
+  if (!Array.isArray(value.complications)) {
+    errors.complications = "Complications must be a list";
+  } else {
+    const seen = new Set<string>();
+    value.complications.forEach((complication, i) => {
+      const path = `complications[${i}]`;
+      if (!isRecord(complication)) {
+        errors[path] = "Complication must be an object";
+        return;
+      }
+      if (!isOneOf(Object.keys(COMPLICATIONS) as ComplicationType[], complication.type)) {
+        errors[`${path}.type`] = `Type must be one of ${Object.keys(COMPLICATIONS).join(", ")}`;
+        return;
+      }
+      if (seen.has(complication.type)) {
+        errors[`${path}.type`] = "Complication is already used";
+      }
+      seen.add(complication.type);
+      const { min, max } = COMPLICATIONS[complication.type];
+      const amount = complication.value;
+      if (typeof amount !== "number" || !Number.isInteger(amount) || amount < min || amount > max) {
+        errors[`${path}.value`] = `Enter a whole number from ${min} to ${max}`;
+      }
+    });
+  }
+
+  return Object.keys(errors).length === 0
+    ? { config: value as unknown as WatchFaceConfig, errors }
+    : { config: null, errors };
+}
+
+// Reads the cleartext part of a stored config, where each encrypted number is
+// an `{ $fhe: index }` placeholder (see encryptConfig). Returns null when the
+// template does not follow the current schema.
+export function decodeConfigTemplate(template: unknown): WatchFacePreviewConfig | null {
+  if (!isRecord(template) || !Array.isArray(template.complications)) {
+    return null;
+  }
+  const complicationTypes = Object.keys(COMPLICATIONS) as ComplicationType[];
+  const encrypted = template.complications.map(
+    complication => isRecord(complication) && isRecord(complication.value) && "$fhe" in complication.value
+  );
+  // Stand in a valid value for each placeholder so the rest can be validated
+  const complications = template.complications.map((complication: unknown, i) => {
+    if (!encrypted[i] || !isRecord(complication) || !isOneOf(complicationTypes, complication.type)) {
+      return complication;
+    }
+    return { type: complication.type, value: COMPLICATIONS[complication.type].min };
+  });
+  const { config } = validateWatchFaceConfig({ ...template, complications });
+  if (!config) {
+    return null;
+  }
+  return {
+    ...config,
+    complications: config.complications.map((complication, i) => ({
+      type: complication.type,
+      value: encrypted[i] ? null : complication.value
+    }))
+  };
+}
+
+// Fills the encrypted complication values of a config decoded from `template`
+// with values decrypted by field index (see decryptConfigValues). Values that
+// could not be decrypted stay empty (null).
+export function restoreEncryptedValues(
+  template: unknown,
+  config: WatchFacePreviewConfig,
+  values: (number | null)[]
+): WatchFacePreviewConfig {
+  const placeholders = isRecord(template) && Array.isArray(template.complications) ? template.complications : [];
+  return {
+    ...config,
+    complications: config.complications.map((complication, i) => {
+      const placeholder: unknown = isRecord(placeholders[i]) ? placeholders[i].value : null;
+      if (complication.value !== null || !isRecord(placeholder) || typeof placeholder.$fhe !== "number") {
+        return complication;
+      }
+      return { ...complication, value: values[placeholder.$fhe] ?? null };
+    })
+  };
+}
@@ -0,0 +1,1301 @@
+import {
+  SmartWatchUI,
+  SmartWatchUI__factory,
+  SmartWatchUIClientMock,
+  SmartWatchUIClientMock__factory,
+} from "../types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "SmartWatchUI",
+  )) as SmartWatchUI__factory;
+  const smartWatchUI = (await factory.deploy()) as SmartWatchUI;
+  const smartWatchUIAddress = await smartWatchUI.getAddress();
+
+  const clientFactory = (await ethers.getContractFactory(
+    "SmartWatchUIClientMock",
+  )) as SmartWatchUIClientMock__factory;
+  const client = (await clientFactory.deploy(
+    smartWatchUIAddress,
+  )) as SmartWatchUIClientMock;
+  const clientAddress = await client.getAddress();
+
+  return { smartWatchUI, smartWatchUIAddress, client, clientAddress };
+}
+
+// Packs 4-bit priorities, stored minus one, the same way `unpackPriorities` unpacks them.
+function packPriorities(priorities: number[]) {
+  return priorities.reduce(
+    (config, priority, i) => config + (BigInt(priority - 1) << BigInt(i * 4)),
+    0n,
+  );
+}
+
+describe("SmartWatchUI", function () {
+  let signers: Signers;
+  let smartWatchUI: SmartWatchUI;
+  let client: SmartWatchUIClientMock;
+  let clientAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ smartWatchUI, client, clientAddress } = await deployFixture());
+  });
+
+  describe("updateProfile", function () {
+    it("stores the profile and emits ProfileUpdated", async function () {
+      await expect(client.updateProfile(3, 2))
+        .to.emit(smartWatchUI, "ProfileUpdated")
+        .withArgs(clientAddress);
+
+      const profile = await smartWatchUI.userProfiles(clientAddress);
+      expect(profile.user).to.eq(clientAddress);
+      expect(profile.timestamp).to.be.gt(0);
+
+      const activity = await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        profile.encryptedActivityPattern,
+      );
+      const notificationPref = await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        profile.encryptedNotificationPref,
+      );
+      expect(activity).to.eq(3);
+      expect(notificationPref).to.eq(2);
+    });
+
+    it("folds later observations into a moving average", async function () {
+      await client.updateProfile(8, 2);
+      await client.updateProfile(4, 6);
+
+      const profile = await smartWatchUI.userProfiles(clientAddress);
+      // (3 * 8 + 4) / 4 and (3 * 2 + 6) / 4
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          profile.encryptedActivityPattern,
+        ),
+      ).to.eq(7);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          profile.encryptedNotificationPref,
+        ),
+      ).to.eq(3);
+    });
+
+    it("keeps the computed layout until the next recomputation", async function () {
+      await client.updateProfile(3, 2);
+      await client.computeUILayout();
+      const computed = await smartWatchUI.uiLayouts(clientAddress);
+
+      await client.updateProfile(4, 1);
+
+      const layout = await smartWatchUI.uiLayouts(clientAddress);
+      expect(layout.isComputed).to.eq(true);
+      expect(layout.encryptedLayoutConfig).to.eq(
+        computed.encryptedLayoutConfig,
+      );
+    });
+
+    it("starts over after resetProfile", async function () {
+      await client.updateProfile(8, 2);
+
+      await expect(client.resetProfile())
+        .to.emit(smartWatchUI, "ProfileReset")
+        .withArgs(clientAddress);
+      expect((await smartWatchUI.userProfiles(clientAddress)).user).to.eq(
+        ethers.ZeroAddress,
+      );
+      await expect(client.computeUILayout()).to.be.revertedWith("No profile");
+
+      await client.updateProfile(4, 0);
+      const profile = await smartWatchUI.userProfiles(clientAddress);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          profile.encryptedActivityPattern,
+        ),
+      ).to.eq(4);
+    });
+
+    it("keeps profiles separate per sender", async function () {
+      await client.updateProfile(3, 2);
+
+      expect(
+        (await smartWatchUI.userProfiles(signers.alice.address)).user,
+      ).to.eq(ethers.ZeroAddress);
+    });
+  });
+
+  describe("updateProfileWithProof", function () {
+    let smartWatchUIAddress: string;
+
+    beforeEach(async function () {
+      smartWatchUIAddress = await smartWatchUI.getAddress();
+    });
+
+    async function encryptProfile(
+      signer: HardhatEthersSigner,
+      values: number[],
+    ) {
+      const input = fhevm.createEncryptedInput(
+        smartWatchUIAddress,
+        signer.address,
+      );
+      values.forEach((value) => input.add32(value));
+      return input.encrypt();
+    }
+
+    it("verifies client-side inputs and stores them", async function () {
+      const { handles, inputProof } = await encryptProfile(
+        signers.alice,
+        [4, 0, 8000, 60, 420, 7],
+      );
+
+      await expect(
+        smartWatchUI
+          .connect(signers.alice)
+          .updateProfileWithProof(
+            handles[0],
+            handles[1],
+            handles[2],
+            handles[3],
+            handles[4],
+            ["music"],
+            [handles[5]],
+            inputProof,
+          ),
+      )
+        .to.emit(smartWatchUI, "ProfileUpdated")
+        .withArgs(signers.alice.address);
+
+      // The user keeps access to their own ciphertexts
+      const profile = await smartWatchUI.userProfiles(signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          profile.encryptedStepCount,
+          smartWatchUIAddress,
+          signers.alice,
+        ),
+      ).to.eq(8000);
+      const [, counts] = await smartWatchUI
+        .connect(signers.alice)
+        .getAppInteractions();
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          counts[0],
+          smartWatchUIAddress,
+          signers.alice,
+        ),
+      ).to.eq(7);
+    });
+
+    it("lets the contract reuse the inputs in later transactions", async function () {
+      const { handles, inputProof } = await encryptProfile(
+        signers.alice,
+        [4, 0, 0, 0, 0],
+      );
+      await smartWatchUI
+        .connect(signers.alice)
+        .updateProfileWithProof(
+          handles[0],
+          handles[1],
+          handles[2],
+          handles[3],
+          handles[4],
+          [],
+          [],
+          inputProof,
+        );
+
+      await smartWatchUI.connect(signers.alice).computeUILayout();
+
+      const layout = await smartWatchUI.uiLayouts(signers.alice.address);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          layout.encryptedLayoutConfig,
+        ),
+      ).to.eq(packPriorities([5, 4, 1, 3, 2]));
+    });
+
+    it("rejects inputs encrypted for another user", async function () {
+      const { handles, inputProof } = await encryptProfile(
+        signers.bob,
+        [4, 0, 0, 0, 0],
+      );
+
+      await expect(
+        smartWatchUI
+          .connect(signers.alice)
+          .updateProfileWithProof(
+            handles[0],
+            handles[1],
+            handles[2],
+            handles[3],
+            handles[4],
+            [],
+            [],
+            inputProof,
+          ),
+      ).to.be.reverted;
+    });
+
+    it("rejects raw handles the sender has no access to", async function () {
+      await client.updateProfile(3, 2);
+      const profile = await smartWatchUI.userProfiles(clientAddress);
+
+      await expect(
+        smartWatchUI
+          .connect(signers.alice)
+          .updateProfile(
+            profile.encryptedActivityPattern,
+            profile.encryptedNotificationPref,
+            profile.encryptedStepCount,
+            profile.encryptedRestingHeartRate,
+            profile.encryptedSleepDuration,
+            [],
+            [],
+          ),
+      ).to.be.revertedWith("Sender not allowed");
+    });
+  });
+
+  describe("computeUILayout", function () {
+    it("reverts without a profile", async function () {
+      await expect(
+        smartWatchUI.connect(signers.alice).computeUILayout(),
+      ).to.be.revertedWith("No profile");
+    });
+
+    it("computes the encrypted layout from the profile", async function () {
+      await client.updateProfile(3, 2);
+
+      await expect(client.computeUILayout())
+        .to.emit(smartWatchUI, "LayoutComputed")
+        .withArgs(clientAddress, 1);
+
+      const layout = await smartWatchUI.uiLayouts(clientAddress);
+      expect(layout.isComputed).to.eq(true);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          layout.encryptedLayoutConfig,
+        ),
+      ).to.eq(packPriorities([5, 4, 1, 3, 2]));
+    });
+
+    it("recomputes the layout as a new version", async function () {
+      await client.updateProfile(3, 2);
+      await client.computeUILayout();
+
+      await expect(client.computeUILayout())
+        .to.emit(smartWatchUI, "LayoutComputed")
+        .withArgs(clientAddress, 2);
+      expect((await smartWatchUI.uiLayouts(clientAddress)).version).to.eq(2);
+    });
+  });
+
+  describe("component weights", function () {
+    async function decryptWeights(handles: string[]) {
+      const weights: bigint[] = [];
+      for (const handle of handles) {
+        weights.push(
+          await fhevm.debugger.decryptEuint(FhevmType.euint32, handle),
+        );
+      }
+      return weights;
+    }
+
+    it("folds the activity pattern into the caller's weights", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+
+      expect(
+        await decryptWeights(await client.getComponentWeights()),
+      ).to.deep.eq([0n, 2n, 4n, 6n, 8n]);
+    });
+
+    it("keeps weights bounded across recomputations", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+
+      expect(
+        await decryptWeights(await client.getComponentWeights()),
+      ).to.deep.eq([0n, 3n, 6n, 9n, 12n]);
+    });
+
+    it("does not leak one user's weights into another's", async function () {
+      const otherClient = (await (
+        await ethers.getContractFactory("SmartWatchUIClientMock")
+      ).deploy(await smartWatchUI.getAddress())) as SmartWatchUIClientMock;
+
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+      await otherClient.updateProfile(2, 0);
+      await otherClient.computeUILayout();
+
+      expect(
+        await decryptWeights(await client.getComponentWeights()),
+      ).to.deep.eq([0n, 2n, 4n, 6n, 8n]);
+      expect(
+        await decryptWeights(await otherClient.getComponentWeights()),
+      ).to.deep.eq([0n, 1n, 2n, 3n, 4n]);
+    });
+
+    it("resets the caller's weights", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+
+      await expect(client.resetComponentWeights())
+        .to.emit(smartWatchUI, "ComponentWeightsReset")
+        .withArgs(clientAddress);
+      expect(await client.getComponentWeights()).to.deep.eq(
+        Array(5).fill(ethers.ZeroHash),
+      );
+
+      await client.resetProfile();
+      await client.updateProfile(2, 0);
+      await client.computeUILayout();
+
+      expect(
+        await decryptWeights(await client.getComponentWeights()),
+      ).to.deep.eq([0n, 1n, 2n, 3n, 4n]);
+    });
+  });
+
+  describe("layout decryption", function () {
+    it("reverts before the layout is computed", async function () {
+      await client.updateProfile(3, 2);
+
+      await expect(client.requestLayoutDecryption()).to.be.revertedWith(
+        "Layout not computed",
+      );
+    });
+
+    it("reveals the layout through the decryption oracle", async function () {
+      await client.updateProfile(3, 2);
+      await client.computeUILayout();
+
+      await expect(client.requestLayoutDecryption())
+        .to.emit(smartWatchUI, "DecryptionRequested")
+        .withArgs(clientAddress, anyValue);
+      await expect(
+        smartWatchUI.getRevealedLayout(clientAddress),
+      ).to.be.revertedWith("Not revealed");
+
+      await fhevm.awaitDecryptionOracle();
+
+      const [event] = await smartWatchUI.queryFilter(
+        smartWatchUI.filters.LayoutRevealed(clientAddress),
+      );
+      expect(event.args.version).to.eq(1);
+
+      const revealed = await smartWatchUI.decryptedLayouts(clientAddress);
+      expect(revealed.isRevealed).to.eq(true);
+      expect(revealed.version).to.eq(1);
+    });
+
+    it("reveals component ids and priorities as parallel arrays", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+      await client.requestLayoutDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      const [version, components, priorities] =
+        await smartWatchUI.getRevealedLayout(clientAddress);
+      expect(version).to.eq(1);
+      expect(components).to.deep.eq([
+        "clock",
+        "notifications",
+        "activity",
+        "weather",
+        "calendar",
+      ]);
+      expect(priorities).to.deep.eq([5n, 4n, 1n, 3n, 2n]);
+    });
+
+    it("reverts on a second request once revealed", async function () {
+      await client.updateProfile(3, 2);
+      await client.computeUILayout();
+      await client.requestLayoutDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(client.requestLayoutDecryption()).to.be.revertedWith(
+        "Already revealed",
+      );
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(
+        smartWatchUI.decryptLayoutCallback(42, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+    });
+  });
+
+  describe("user decryption", function () {
+    let smartWatchUIAddress: string;
+
+    beforeEach(async function () {
+      smartWatchUIAddress = await smartWatchUI.getAddress();
+
+      const input = fhevm.createEncryptedInput(
+        smartWatchUIAddress,
+        signers.alice.address,
+      );
+      [4, 0, 0, 0, 0].forEach((value) => input.add32(value));
+      const { handles, inputProof } = await input.encrypt();
+      await smartWatchUI
+        .connect(signers.alice)
+        .updateProfileWithProof(
+          handles[0],
+          handles[1],
+          handles[2],
+          handles[3],
+          handles[4],
+          [],
+          [],
+          inputProof,
+        );
+      await smartWatchUI.connect(signers.alice).computeUILayout();
+    });
+
+    it("lets the user decrypt their own layout off-chain", async function () {
+      const handle = await smartWatchUI
+        .connect(signers.alice)
+        .getEncryptedLayout();
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          handle,
+          smartWatchUIAddress,
+          signers.alice,
+        ),
+      ).to.eq(packPriorities([5, 4, 1, 3, 2]));
+      expect(
+        (await smartWatchUI.decryptedLayouts(signers.alice.address)).isRevealed,
+      ).to.eq(false);
+    });
+
+    it("does not let other users decrypt the layout", async function () {
+      const handle = await smartWatchUI
+        .connect(signers.alice)
+        .getEncryptedLayout();
+
+      let failed = false;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          handle,
+          smartWatchUIAddress,
+          signers.bob,
+        );
+      } catch {
+        failed = true;
+      }
+      expect(failed).to.eq(true);
+    });
+
+    it("exposes the components the layout was computed for", async function () {
+      await smartWatchUI.addComponent("music");
+
+      expect(
+        await smartWatchUI.getLayoutComponents(signers.alice.address),
+      ).to.deep.eq([
+        "clock",
+        "notifications",
+        "activity",
+        "weather",
+        "calendar",
+      ]);
+    });
+  });
+
+  describe("decryption requests", function () {
+    const PENDING = 1n;
+    const FULFILLED = 2n;
+    const EXPIRED = 3n;
+
+    beforeEach(async function () {
+      await client.updateProfile(3, 2);
+      await client.computeUILayout();
+    });
+
+    it("tracks a request from pending to fulfilled", async function () {
+      expect((await smartWatchUI.getDecryptionStatus(clientAddress))[0]).to.eq(
+        0n,
+      );
+
+      await client.requestLayoutDecryption();
+      const [status, requestId] =
+        await smartWatchUI.getDecryptionStatus(clientAddress);
+      expect(status).to.eq(PENDING);
+      await expect(client.requestLayoutDecryption()).to.be.revertedWith(
+        "Request pending",
+      );
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await smartWatchUI.getDecryptionStatus(clientAddress))[0]).to.eq(
+        FULFILLED,
+      );
+      // The fulfilled id is cleared, so it cannot be replayed
+      await expect(
+        smartWatchUI.decryptLayoutCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+    });
+
+    it("reports an unanswered request as expired after the timeout", async function () {
+      await client.requestLayoutDecryption();
+      await expect(client.cancelLayoutDecryption()).to.be.revertedWith(
+        "Request not expired",
+      );
+
+      await time.increase(await smartWatchUI.DECRYPTION_TIMEOUT());
+
+      expect((await smartWatchUI.getDecryptionStatus(clientAddress))[0]).to.eq(
+        EXPIRED,
+      );
+    });
+
+    it("cancels an expired request and allows a retry", async function () {
+      await client.requestLayoutDecryption();
+      const [, staleId] = await smartWatchUI.getDecryptionStatus(clientAddress);
+      await time.increase(await smartWatchUI.DECRYPTION_TIMEOUT());
+
+      await expect(client.cancelLayoutDecryption())
+        .to.emit(smartWatchUI, "DecryptionCancelled")
+        .withArgs(clientAddress, staleId);
+      expect(
+        (await smartWatchUI.decryptionRequests(clientAddress)).status,
+      ).to.eq(EXPIRED);
+      // A late oracle answer to the cancelled request is rejected
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWith(
+        "Invalid request",
+      );
+
+      await client.requestLayoutDecryption();
+      const [status, requestId] =
+        await smartWatchUI.getDecryptionStatus(clientAddress);
+      expect(status).to.eq(PENDING);
+      expect(requestId).to.not.eq(staleId);
+    });
+
+    it("rejects cancellation without a pending request", async function () {
+      await expect(client.cancelLayoutDecryption()).to.be.revertedWith(
+        "No pending request",
+      );
+    });
+
+    it("expires a pending request when the layout is recomputed", async function () {
+      await client.requestLayoutDecryption();
+
+      await client.computeUILayout();
+
+      expect(
+        (await smartWatchUI.decryptionRequests(clientAddress)).status,
+      ).to.eq(EXPIRED);
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWith(
+        "Invalid request",
+      );
+
+      await client.requestLayoutDecryption();
+      await fhevm.awaitDecryptionOracle();
+      expect(
+        (await smartWatchUI.decryptionRequests(clientAddress)).status,
+      ).to.eq(FULFILLED);
+    });
+  });
+
+  describe("priority ranking", function () {
+    async function decryptPriorities() {
+      const layout = await smartWatchUI.uiLayouts(clientAddress);
+      const config = await fhevm.debugger.decryptEuint(
+        FhevmType.euint64,
+        layout.encryptedLayoutConfig,
+      );
+      return [0, 1, 2, 3, 4].map(
+        (i) => Number((config >> BigInt(i * 4)) & 15n) + 1,
+      );
+    }
+
+    it("keeps catalog order when all scores tie", async function () {
+      await client.updateProfile(0, 0);
+      await client.computeUILayout();
+
+      expect(await decryptPriorities()).to.deep.eq([1, 2, 3, 4, 5]);
+    });
+
+    it("promotes notifications for a notification-heavy profile", async function () {
+      await client.updateProfile(0, 5);
+      await client.computeUILayout();
+
+      expect(await decryptPriorities()).to.deep.eq([2, 1, 3, 4, 5]);
+    });
+
+    it("ranks activity-driven components first for an active profile", async function () {
+      // scores: clock 0, notifications 2, activity 8, weather 6, calendar 8
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+
+      expect(await decryptPriorities()).to.deep.eq([5, 4, 1, 3, 2]);
+    });
+
+    it("always yields a permutation of 1..5", async function () {
+      for (const [activity, notificationPref] of [
+        [1, 1],
+        [7, 3],
+        [100, 250],
+      ]) {
+        await client.updateProfile(activity, notificationPref);
+        await client.computeUILayout();
+
+        expect([...(await decryptPriorities())].sort()).to.deep.eq([
+          1, 2, 3, 4, 5,
+        ]);
+      }
+    });
+  });
+
+  describe("component catalog", function () {
+    const defaults = [
+      "clock",
+      "notifications",
+      "activity",
+      "weather",
+      "calendar",
+    ];
+
+    it("starts with the default components", async function () {
+      expect(await smartWatchUI.owner()).to.eq(signers.deployer.address);
+      expect(await smartWatchUI.getComponents()).to.deep.eq(defaults);
+    });
+
+    it("restricts catalog changes to the owner", async function () {
+      const asAlice = smartWatchUI.connect(signers.alice);
+
+      await expect(asAlice.addComponent("music")).to.be.revertedWith(
+        "Not owner",
+      );
+      await expect(asAlice.retireComponent("clock")).to.be.revertedWith(
+        "Not owner",
+      );
+      await expect(
+        asAlice.reorderComponents([...defaults].reverse()),
+      ).to.be.revertedWith("Not owner");
+    });
+
+    it("adds components and rejects duplicates", async function () {
+      await expect(smartWatchUI.addComponent("heartRate"))
+        .to.emit(smartWatchUI, "ComponentAdded")
+        .withArgs("heartRate");
+      expect(await smartWatchUI.getComponents()).to.deep.eq([
+        ...defaults,
+        "heartRate",
+      ]);
+
+      await expect(smartWatchUI.addComponent("heartRate")).to.be.revertedWith(
+        "Component exists",
+      );
+      await expect(smartWatchUI.addComponent("")).to.be.revertedWith(
+        "Empty name",
+      );
+    });
+
+    it("caps the catalog at MAX_COMPONENTS", async function () {
+      const max = Number(await smartWatchUI.MAX_COMPONENTS());
+      for (let i = defaults.length; i < max; i++) {
+        await smartWatchUI.addComponent(`widget${i}`);
+      }
+
+      await expect(smartWatchUI.addComponent("overflow")).to.be.revertedWith(
+        "Catalog full",
+      );
+    });
+
+    it("computes and reveals a layout for a full catalog", async function () {
+      const max = Number(await smartWatchUI.MAX_COMPONENTS());
+      const extra = ["heartRate", "sleep"];
+      for (let i = defaults.length; i < max; i++) {
+        await smartWatchUI.addComponent(
+          extra[i - defaults.length] ?? `widget${i}`,
+        );
+      }
+
+      // Every signal and an interaction count per component is the most
+      // expensive profile to score
+      const components = [...(await smartWatchUI.getComponents())];
+      await client.updateSensorProfile(
+        4,
+        3,
+        500,
+        60,
+        480,
+        components,
+        components.map((_, i) => i + 1),
+      );
+      await client.computeUILayout();
+      await client.requestLayoutDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      const [, revealed, priorities] =
+        await smartWatchUI.getRevealedLayout(clientAddress);
+      expect(revealed).to.deep.eq(components);
+      expect(priorities.map(Number).sort((a, b) => a - b)).to.deep.eq(
+        Array.from({ length: max }, (_, i) => i + 1),
+      );
+    });
+
+    it("retires components while keeping the remaining order", async function () {
+      await expect(smartWatchUI.retireComponent("notifications"))
+        .to.emit(smartWatchUI, "ComponentRetired")
+        .withArgs("notifications");
+      expect(await smartWatchUI.getComponents()).to.deep.eq([
+        "clock",
+        "activity",
+        "weather",
+        "calendar",
+      ]);
+
+      await expect(
+        smartWatchUI.retireComponent("notifications"),
+      ).to.be.revertedWith("Unknown component");
+    });
+
+    it("keeps at least one component", async function () {
+      for (const name of defaults.slice(1)) {
+        await smartWatchUI.retireComponent(name);
+      }
+
+      await expect(smartWatchUI.retireComponent("clock")).to.be.revertedWith(
+        "Catalog cannot be empty",
+      );
+    });
+
+    it("reorders components to a permutation", async function () {
+      const reordered = [
+        "calendar",
+        "clock",
+        "activity",
+        "notifications",
+        "weather",
+      ];
+      await expect(smartWatchUI.reorderComponents(reordered)).to.emit(
+        smartWatchUI,
+        "ComponentsReordered",
+      );
+      expect(await smartWatchUI.getComponents()).to.deep.eq(reordered);
+
+      await expect(
+        smartWatchUI.reorderComponents(reordered.slice(1)),
+      ).to.be.revertedWith("Not a permutation");
+      await expect(
+        smartWatchUI.reorderComponents([...reordered.slice(1), "music"]),
+      ).to.be.revertedWith("Unknown component");
+      await expect(
+        smartWatchUI.reorderComponents([...reordered.slice(1), "clock"]),
+      ).to.be.revertedWith("Duplicate component");
+    });
+
+    it("seeds weights for newly added components", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+      await smartWatchUI.addComponent("music");
+
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+
+      const weights: bigint[] = [];
+      for (const handle of await client.getComponentWeights()) {
+        weights.push(
+          await fhevm.debugger.decryptEuint(FhevmType.euint32, handle),
+        );
+      }
+      // music starts from 1 + 4*6 while the others keep their history
+      expect(weights).to.deep.eq([0n, 3n, 6n, 9n, 12n, 10n]);
+    });
+
+    it("routes profile signals to components by name", async function () {
+      await smartWatchUI.reorderComponents([
+        "notifications",
+        "clock",
+        "activity",
+        "weather",
+        "calendar",
+      ]);
+      await client.updateProfile(0, 5);
+      await client.computeUILayout();
+      await client.requestLayoutDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await client.getDecryptedLayout()).to.eq(
+        "Watch UI Layout:\n" +
+          "notifications: Priority 1\n" +
+          "clock: Priority 2\n" +
+          "activity: Priority 3\n" +
+          "weather: Priority 4\n" +
+          "calendar: Priority 5\n",
+      );
+    });
+
+    it("renders layouts against the catalog they were computed with", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+      await smartWatchUI.retireComponent("clock");
+      await smartWatchUI.addComponent("music");
+
+      await client.requestLayoutDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await client.getDecryptedLayout()).to.eq(
+        "Watch UI Layout:\n" +
+          "clock: Priority 5\n" +
+          "notifications: Priority 4\n" +
+          "activity: Priority 1\n" +
+          "weather: Priority 3\n" +
+          "calendar: Priority 2\n",
+      );
+    });
+  });
+
+  describe("sensor signals", function () {
+    async function decryptPriorities(count = 5) {
+      const layout = await smartWatchUI.uiLayouts(clientAddress);
+      const config = await fhevm.debugger.decryptEuint(
+        FhevmType.euint64,
+        layout.encryptedLayoutConfig,
+      );
+      return Array.from(
+        { length: count },
+        (_, i) => Number((config >> BigInt(i * 4)) & 15n) + 1,
+      );
+    }
+
+    it("stores every encrypted profile signal", async function () {
+      await client.updateSensorProfile(1, 2, 8000, 60, 420, ["music"], [7]);
+
+      const profile = await smartWatchUI.userProfiles(clientAddress);
+      const values: bigint[] = [];
+      for (const handle of [
+        profile.encryptedStepCount,
+        profile.encryptedRestingHeartRate,
+        profile.encryptedSleepDuration,
+      ]) {
+        values.push(
+          await fhevm.debugger.decryptEuint(FhevmType.euint32, handle),
+        );
+      }
+      expect(values).to.deep.eq([8000n, 60n, 420n]);
+
+      const [apps, counts] = await client.getAppInteractions();
+      expect(apps).to.deep.eq(["music"]);
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, counts[0]),
+      ).to.eq(7);
+    });
+
+    it("rejects mismatched app interaction arrays", async function () {
+      await expect(
+        smartWatchUI.updateProfile(
+          ethers.ZeroHash,
+          ethers.ZeroHash,
+          ethers.ZeroHash,
+          ethers.ZeroHash,
+          ethers.ZeroHash,
+          ["music"],
+          [],
+        ),
+      ).to.be.revertedWith("Length mismatch");
+    });
+
+    it("counts steps towards the activity component", async function () {
+      // 500 steps at the default weight of 1/100 adds 5 to activity
+      await client.updateSensorProfile(0, 0, 500, 0, 0, [], []);
+      await client.computeUILayout();
+
+      expect(await decryptPriorities()).to.deep.eq([2, 3, 1, 4, 5]);
+    });
+
+    it("routes heart rate and sleep to their components", async function () {
+      await smartWatchUI.addComponent("heartRate");
+      await smartWatchUI.addComponent("sleep");
+
+      // heartRate scores 60 * 10/100 = 6, sleep 480 * 10/100 = 48
+      await client.updateSensorProfile(0, 0, 0, 60, 480, [], []);
+      await client.computeUILayout();
+
+      expect(await decryptPriorities(7)).to.deep.eq([3, 4, 5, 6, 7, 2, 1]);
+    });
+
+    it("boosts components by their app interaction count", async function () {
+      await client.updateSensorProfile(0, 0, 0, 0, 0, ["weather"], [3]);
+      await client.computeUILayout();
+
+      expect(await decryptPriorities()).to.deep.eq([2, 3, 4, 1, 5]);
+    });
+
+    it("averages app interactions and keeps apps missing from an observation", async function () {
+      await client.updateSensorProfile(0, 0, 0, 0, 0, ["weather"], [8]);
+      await client.updateSensorProfile(0, 0, 0, 0, 0, ["weather"], [4]);
+      await client.updateSensorProfile(0, 0, 0, 0, 0, ["music"], [2]);
+
+      const [apps, counts] = await client.getAppInteractions();
+      expect(apps).to.deep.eq(["weather", "music"]);
+      // (3 * 8 + 4) / 4
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, counts[0]),
+      ).to.eq(7);
+    });
+
+    it("clears app interactions on resetProfile", async function () {
+      await client.updateSensorProfile(0, 0, 0, 0, 0, ["weather"], [3]);
+      await client.resetProfile();
+      await client.updateProfile(0, 0);
+      await client.computeUILayout();
+
+      const [apps] = await client.getAppInteractions();
+      expect(apps).to.deep.eq([]);
+      expect(await decryptPriorities()).to.deep.eq([1, 2, 3, 4, 5]);
+    });
+
+    it("lets the owner reweight signals", async function () {
+      const weights = {
+        activity: 100,
+        notifications: 0,
+        steps: 1,
+        restingHeartRate: 10,
+        sleep: 10,
+        appInteractions: 100,
+      };
+      await expect(
+        smartWatchUI.connect(signers.alice).setSignalWeights(weights),
+      ).to.be.revertedWith("Not owner");
+      await expect(smartWatchUI.setSignalWeights(weights)).to.emit(
+        smartWatchUI,
+        "SignalWeightsUpdated",
+      );
+      expect((await smartWatchUI.signalWeights()).notifications).to.eq(0);
+
+      // notifications no longer outrank the rest for a notification-heavy profile
+      await client.updateProfile(0, 5);
+      await client.computeUILayout();
+
+      expect(await decryptPriorities()).to.deep.eq([1, 2, 3, 4, 5]);
+    });
+  });
+
+  describe("layout history", function () {
+    it("records each version with its timestamp and components", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+      await smartWatchUI.addComponent("music");
+      await client.computeUILayout();
+
+      const [oldest, latest] =
+        await smartWatchUI.getLayoutVersionRange(clientAddress);
+      expect([oldest, latest]).to.deep.eq([1n, 2n]);
+
+      const first = await smartWatchUI.getLayoutVersion(clientAddress, 1);
+      const second = await smartWatchUI.getLayoutVersion(clientAddress, 2);
+      expect(first.timestamp).to.be.gt(0);
+      expect(second.timestamp).to.be.gte(first.timestamp);
+      expect(first.components).to.have.length(5);
+      expect(second.components).to.have.length(6);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          first.encryptedLayoutConfig,
+        ),
+      ).to.eq(packPriorities([5, 4, 1, 3, 2]));
+      expect(second.encryptedLayoutConfig).to.eq(
+        (await smartWatchUI.uiLayouts(clientAddress)).encryptedLayoutConfig,
+      );
+    });
+
+    it("keeps only the most recent versions", async function () {
+      const max = Number(await smartWatchUI.MAX_LAYOUT_HISTORY());
+      await client.updateProfile(1, 1);
+      for (let i = 0; i < max + 2; i++) {
+        await client.computeUILayout();
+      }
+
+      const [oldest, latest] =
+        await smartWatchUI.getLayoutVersionRange(clientAddress);
+      expect([oldest, latest]).to.deep.eq([3n, BigInt(max + 2)]);
+      await smartWatchUI.getLayoutVersion(clientAddress, 3);
+      for (const version of [0, 2, max + 3]) {
+        await expect(
+          smartWatchUI.getLayoutVersion(clientAddress, version),
+        ).to.be.revertedWith("Version not retained");
+      }
+    });
+
+    it("hides an earlier public reveal once recomputed", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+      await client.requestLayoutDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      await client.computeUILayout();
+
+      expect(
+        (await smartWatchUI.decryptedLayouts(clientAddress)).isRevealed,
+      ).to.eq(false);
+      await expect(client.requestLayoutDecryption()).to.emit(
+        smartWatchUI,
+        "DecryptionRequested",
+      );
+    });
+  });
+
+  describe("notification prioritization", function () {
+    let smartWatchUIAddress: string;
+
+    beforeEach(async function () {
+      smartWatchUIAddress = await smartWatchUI.getAddress();
+    });
+
+    async function encrypt(signer: HardhatEthersSigner, values: number[]) {
+      const input = fhevm.createEncryptedInput(
+        smartWatchUIAddress,
+        signer.address,
+      );
+      values.forEach((value) => input.add32(value));
+      return input.encrypt();
+    }
+
+    async function classify(category: string, urgency: number) {
+      const { handles, inputProof } = await encrypt(signers.alice, [urgency]);
+      await smartWatchUI
+        .connect(signers.alice)
+        .classifyNotification(category, handles[0], inputProof);
+      return fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await smartWatchUI.getNotificationTier(signers.alice.address, category),
+        smartWatchUIAddress,
+        signers.alice,
+      );
+    }
+
+    it("classifies notifications by app preference and urgency", async function () {
+      const { handles, inputProof } = await encrypt(signers.alice, [2, 8]);
+      await expect(
+        smartWatchUI
+          .connect(signers.alice)
+          .setNotificationPreferences(["mail", "chat"], handles, inputProof),
+      )
+        .to.emit(smartWatchUI, "NotificationPreferencesUpdated")
+        .withArgs(signers.alice.address);
+
+      // default thresholds: batch from 5, immediate from 12
+      expect(await classify("mail", 1)).to.eq(0);
+      expect(await classify("mail", 4)).to.eq(1);
+      expect(await classify("chat", 5)).to.eq(2);
+    });
+
+    it("falls back to the profile's notification preference", async function () {
+      const { handles, inputProof } = await encrypt(
+        signers.alice,
+        [0, 6, 0, 0, 0],
+      );
+      await smartWatchUI
+        .connect(signers.alice)
+        .updateProfileWithProof(
+          handles[0],
+          handles[1],
+          handles[2],
+          handles[3],
+          handles[4],
+          [],
+          [],
+          inputProof,
+        );
+
+      expect(await classify("news", 0)).to.eq(1);
+    });
+
+    it("scores urgency alone without any preference", async function () {
+      expect(await classify("news", 11)).to.eq(1);
+      expect(await classify("alarm", 12)).to.eq(2);
+    });
+
+    it("keeps tiers private to the user", async function () {
+      await classify("chat", 12);
+      const tier = await smartWatchUI.getNotificationTier(
+        signers.alice.address,
+        "chat",
+      );
+
+      let failed = false;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          tier,
+          smartWatchUIAddress,
+          signers.bob,
+        );
+      } catch {
+        failed = true;
+      }
+      expect(failed).to.eq(true);
+    });
+
+    it("lets the owner tune the thresholds", async function () {
+      await expect(
+        smartWatchUI.connect(signers.alice).setNotificationThresholds(1, 2),
+      ).to.be.revertedWith("Not owner");
+      await expect(
+        smartWatchUI.setNotificationThresholds(3, 2),
+      ).to.be.revertedWith("Invalid thresholds");
+
+      await expect(smartWatchUI.setNotificationThresholds(1, 2))
+        .to.emit(smartWatchUI, "NotificationThresholdsUpdated")
+        .withArgs(1, 2);
+      expect(await classify("news", 1)).to.eq(1);
+      expect(await classify("news", 2)).to.eq(2);
+    });
+
+    it("rejects mismatched preference arrays", async function () {
+      const { handles, inputProof } = await encrypt(signers.alice, [2]);
+
+      await expect(
+        smartWatchUI
+          .connect(signers.alice)
+          .setNotificationPreferences(["mail", "chat"], handles, inputProof),
+      ).to.be.revertedWith("Length mismatch");
+    });
+  });
+
+  describe("watch face values", function () {
+    let smartWatchUIAddress: string;
+
+    beforeEach(async function () {
+      smartWatchUIAddress = await smartWatchUI.getAddress();
+    });
+
+    async function storeValues(signer: HardhatEthersSigner, values: number[]) {
+      const input = fhevm.createEncryptedInput(
+        smartWatchUIAddress,
+        signer.address,
+      );
+      values.forEach((value) => input.add32(value));
+      const { handles, inputProof } = await input.encrypt();
+      await expect(
+        smartWatchUI
+          .connect(signer)
+          .storeWatchFaceValues("face-1", handles, inputProof),
+      )
+        .to.emit(smartWatchUI, "WatchFaceValuesStored")
+        .withArgs(signer.address, "face-1", values.length);
+      return handles.map((handle) => ethers.hexlify(handle));
+    }
+
+    it("keeps the input handles and lets their owner decrypt them", async function () {
+      const handles = await storeValues(signers.alice, [10000, 480]);
+
+      const stored = await smartWatchUI.getWatchFaceValues(
+        signers.alice.address,
+        "face-1",
+      );
+      expect(stored).to.deep.eq(handles);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          stored[1],
+          smartWatchUIAddress,
+          signers.alice,
+        ),
+      ).to.eq(480);
+    });
+
+    it("replaces earlier values while keeping them decryptable", async function () {
+      const [first] = await storeValues(signers.alice, [10000]);
+      const handles = await storeValues(signers.alice, [12000]);
+
+      expect(
+        await smartWatchUI.getWatchFaceValues(signers.alice.address, "face-1"),
+      ).to.deep.eq(handles);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          first,
+          smartWatchUIAddress,
+          signers.alice,
+        ),
+      ).to.eq(10000);
+    });
+
+    it("keeps values private to their owner", async function () {
+      const [handle] = await storeValues(signers.alice, [10000]);
+
+      let failed = false;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handle,
+          smartWatchUIAddress,
+          signers.bob,
+        );
+      } catch {
+        failed = true;
+      }
+      expect(failed).to.eq(true);
+    });
+  });
+
+  describe("getDecryptedLayout", function () {
+    it("reverts before the layout is revealed", async function () {
+      await expect(client.getDecryptedLayout()).to.be.revertedWith(
+        "Not revealed",
+      );
+    });
+
+    it("renders the revealed priority of each component", async function () {
+      await client.updateProfile(4, 0);
+      await client.computeUILayout();
+      await client.requestLayoutDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await client.getDecryptedLayout()).to.eq(
+        "Watch UI Layout:\n" +
+          "clock: Priority 5\n" +
+          "notifications: Priority 4\n" +
+          "activity: Priority 1\n" +
+          "weather: Priority 3\n" +
+          "calendar: Priority 2\n",
+      );
+    });
+  });
+});
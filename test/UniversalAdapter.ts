@@ -0,0 +1,124 @@
+import { UniversalAdapter, UniversalAdapter__factory } from "../types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+type Signers = {
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "UniversalAdapter",
+  )) as UniversalAdapter__factory;
+  const adapter = (await factory.deploy()) as UniversalAdapter;
+  return { adapter };
+}
+
+const record = (value: object) => ethers.toUtf8Bytes(JSON.stringify(value));
+
+describe("UniversalAdapter", function () {
+  let signers: Signers;
+  let adapter: UniversalAdapter;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    ({ adapter } = await deployFixture());
+  });
+
+  it("stores each key in its writer's namespace", async function () {
+    const value = record({ owner: signers.alice.address });
+    await expect(adapter.connect(signers.alice).setData("watchface_1", value))
+      .to.emit(adapter, "DataStored")
+      .withArgs(signers.alice.address, "watchface_1", value);
+
+    expect(await adapter.getData(signers.alice.address, "watchface_1")).to.eq(
+      ethers.hexlify(value),
+    );
+    expect(await adapter.getData(signers.bob.address, "watchface_1")).to.eq(
+      "0x",
+    );
+  });
+
+  it("lets no one claim or overwrite another writer's key", async function () {
+    // Writing the key first gains bob nothing over alice's copy
+    const squatted = record({ owner: signers.bob.address });
+    await adapter.connect(signers.bob).setData("watchface_1", squatted);
+
+    const original = record({ owner: signers.alice.address, isActive: false });
+    await adapter.connect(signers.alice).setData("watchface_1", original);
+    expect(await adapter.getData(signers.alice.address, "watchface_1")).to.eq(
+      ethers.hexlify(original),
+    );
+
+    const updated = record({ owner: signers.alice.address, isActive: true });
+    await adapter.connect(signers.alice).setData("watchface_1", updated);
+    expect(await adapter.getData(signers.alice.address, "watchface_1")).to.eq(
+      ethers.hexlify(updated),
+    );
+    expect(await adapter.getData(signers.bob.address, "watchface_1")).to.eq(
+      ethers.hexlify(squatted),
+    );
+  });
+
+  describe("migration", function () {
+    it("imports records into the namespaces of their recorded owners", async function () {
+      const value = record({ owner: signers.alice.address });
+      await expect(
+        adapter.importRecords(
+          ["watchface_1"],
+          [value],
+          [signers.alice.address],
+        ),
+      )
+        .to.emit(adapter, "DataStored")
+        .withArgs(signers.alice.address, "watchface_1", value);
+
+      expect(await adapter.getData(signers.alice.address, "watchface_1")).to.eq(
+        ethers.hexlify(value),
+      );
+    });
+
+    it("skips keys their owner has already written", async function () {
+      const original = record({ owner: signers.alice.address, name: "new" });
+      await adapter.connect(signers.alice).setData("watchface_1", original);
+
+      await adapter.importRecords(
+        ["watchface_1"],
+        [record({ owner: signers.alice.address, name: "old" })],
+        [signers.alice.address],
+      );
+      expect(await adapter.getData(signers.alice.address, "watchface_1")).to.eq(
+        ethers.hexlify(original),
+      );
+    });
+
+    it("is owner-only and ends once closed", async function () {
+      const value = record({ owner: signers.bob.address });
+      await expect(
+        adapter
+          .connect(signers.bob)
+          .importRecords(["watchface_1"], [value], [signers.bob.address]),
+      ).to.be.revertedWith("Not owner");
+      await expect(
+        adapter.importRecords(["watchface_1"], [value], []),
+      ).to.be.revertedWith("Length mismatch");
+      await expect(
+        adapter.importRecords(["watchface_1"], [value], [ethers.ZeroAddress]),
+      ).to.be.revertedWith("Invalid owner");
+
+      await expect(adapter.closeMigration()).to.emit(
+        adapter,
+        "MigrationClosed",
+      );
+      await expect(
+        adapter.importRecords(["watchface_1"], [value], [signers.bob.address]),
+      ).to.be.revertedWith("Migration closed");
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { WatchFaceRegistry, WatchFaceRegistry__factory } from "../types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "WatchFaceRegistry",
+  )) as WatchFaceRegistry__factory;
+  const registry = (await factory.deploy()) as WatchFaceRegistry;
+  return { registry };
+}
+
+describe("WatchFaceRegistry", function () {
+  let signers: Signers;
+  let registry: WatchFaceRegistry;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    ({ registry } = await deployFixture());
+  });
+
+  describe("registerWatchFace", function () {
+    it("appends ids from concurrent owners without dropping any", async function () {
+      await expect(registry.connect(signers.alice).registerWatchFace("a1"))
+        .to.emit(registry, "WatchFaceRegistered")
+        .withArgs(signers.alice.address, "a1", 0);
+      await registry.connect(signers.bob).registerWatchFace("b1");
+      await registry.connect(signers.alice).registerWatchFace("a2");
+
+      expect(await registry.getWatchFaceCount()).to.eq(3);
+      expect(await registry.getWatchFaceIds(0, 10)).to.deep.eq([
+        "a1",
+        "b1",
+        "a2",
+      ]);
+      expect(await registry.ownerOf("b1")).to.eq(signers.bob.address);
+      expect(await registry.ownerOf("missing")).to.eq(ethers.ZeroAddress);
+    });
+
+    it("rejects duplicate and empty ids", async function () {
+      await registry.connect(signers.alice).registerWatchFace("a1");
+
+      await expect(
+        registry.connect(signers.bob).registerWatchFace("a1"),
+      ).to.be.revertedWith("Already registered");
+      await expect(
+        registry.connect(signers.bob).registerWatchFace(""),
+      ).to.be.revertedWith("Empty id");
+      expect(await registry.ownerOf("a1")).to.eq(signers.alice.address);
+    });
+  });
+
+  describe("pagination", function () {
+    beforeEach(async function () {
+      for (const id of ["a1", "b1", "a2", "a3"]) {
+        const signer = id.startsWith("a") ? signers.alice : signers.bob;
+        await registry.connect(signer).registerWatchFace(id);
+      }
+    });
+
+    it("pages through all ids", async function () {
+      expect(await registry.getWatchFaceIds(1, 2)).to.deep.eq(["b1", "a2"]);
+      expect(await registry.getWatchFaceIds(3, 2)).to.deep.eq(["a3"]);
+      expect(await registry.getWatchFaceIds(4, 2)).to.deep.eq([]);
+    });
+
+    it("pages through an owner's ids", async function () {
+      expect(
+        await registry.getOwnerWatchFaceCount(signers.alice.address),
+      ).to.eq(3);
+      expect(
+        await registry.getOwnerWatchFaceIds(signers.alice.address, 1, 5),
+      ).to.deep.eq(["a2", "a3"]);
+      expect(
+        await registry.getOwnerWatchFaceIds(signers.bob.address, 0, 5),
+      ).to.deep.eq(["b1"]);
+    });
+  });
+
+  describe("activateWatchFace", function () {
+    beforeEach(async function () {
+      await registry.connect(signers.alice).registerWatchFace("a1");
+      await registry.connect(signers.alice).registerWatchFace("a2");
+    });
+
+    it("records a single active face per account", async function () {
+      expect(await registry.getActiveWatchFace(signers.alice.address)).to.eq(
+        "",
+      );
+
+      await expect(registry.connect(signers.alice).activateWatchFace("a1"))
+        .to.emit(registry, "WatchFaceActivated")
+        .withArgs(signers.alice.address, "a1", "");
+      await expect(registry.connect(signers.alice).activateWatchFace("a2"))
+        .to.emit(registry, "WatchFaceActivated")
+        .withArgs(signers.alice.address, "a2", "a1");
+
+      expect(await registry.getActiveWatchFace(signers.alice.address)).to.eq(
+        "a2",
+      );
+    });
+
+    it("lets any account activate any face and counts active users", async function () {
+      await registry.connect(signers.alice).activateWatchFace("a1");
+      await registry.connect(signers.bob).activateWatchFace("a1");
+      expect(await registry.getActivationCount("a1")).to.eq(2);
+
+      await registry.connect(signers.bob).activateWatchFace("a2");
+      expect(await registry.getActivationCount("a1")).to.eq(1);
+      expect(await registry.getActivationCount("a2")).to.eq(1);
+      expect(await registry.getActiveWatchFace(signers.bob.address)).to.eq(
+        "a2",
+      );
+    });
+
+    it("rejects unregistered and already active ids", async function () {
+      await expect(
+        registry.connect(signers.alice).activateWatchFace("missing"),
+      ).to.be.revertedWith("Unknown watch face");
+
+      await registry.connect(signers.alice).activateWatchFace("a1");
+      await expect(
+        registry.connect(signers.alice).activateWatchFace("a1"),
+      ).to.be.revertedWith("Already active");
+    });
+  });
+
+  describe("versions", function () {
+    const hashA = ethers.id("record a");
+    const hashB = ethers.id("record b");
+
+    beforeEach(async function () {
+      await registry.connect(signers.alice).registerWatchFace("a1");
+    });
+
+    it("appends versions and makes the newest current", async function () {
+      expect(await registry.getVersionCount("a1")).to.eq(0);
+
+      await expect(
+        registry.connect(signers.alice).addWatchFaceVersion("a1", hashA),
+      )
+        .to.emit(registry, "WatchFaceVersionAdded")
+        .withArgs(signers.alice.address, "a1", 0, hashA);
+      await registry.connect(signers.alice).addWatchFaceVersion("a1", hashB);
+
+      expect(await registry.getVersionCount("a1")).to.eq(2);
+      expect(await registry.getCurrentVersion("a1")).to.eq(1);
+      const version = await registry.getVersion("a1", 0);
+      expect(version.configHash).to.eq(hashA);
+      expect(version.timestamp).to.be.gt(0);
+    });
+
+    it("rolls back to an earlier version without removing later ones", async function () {
+      await registry.connect(signers.alice).addWatchFaceVersion("a1", hashA);
+      await registry.connect(signers.alice).addWatchFaceVersion("a1", hashB);
+
+      await expect(registry.connect(signers.alice).rollbackWatchFace("a1", 0))
+        .to.emit(registry, "WatchFaceRolledBack")
+        .withArgs(signers.alice.address, "a1", 0, 1);
+      expect(await registry.getCurrentVersion("a1")).to.eq(0);
+      expect(await registry.getVersionCount("a1")).to.eq(2);
+
+      await expect(
+        registry.connect(signers.alice).rollbackWatchFace("a1", 0),
+      ).to.be.revertedWith("Already current");
+      await expect(
+        registry.connect(signers.alice).rollbackWatchFace("a1", 2),
+      ).to.be.revertedWith("Unknown version");
+    });
+
+    it("is restricted to the face owner", async function () {
+      await expect(
+        registry.connect(signers.bob).addWatchFaceVersion("a1", hashA),
+      ).to.be.revertedWith("Not face owner");
+      await expect(
+        registry.connect(signers.bob).addWatchFaceVersion("missing", hashA),
+      ).to.be.revertedWith("Not face owner");
+
+      await registry.connect(signers.alice).addWatchFaceVersion("a1", hashA);
+      await registry.connect(signers.alice).addWatchFaceVersion("a1", hashB);
+      await expect(
+        registry.connect(signers.bob).rollbackWatchFace("a1", 0),
+      ).to.be.revertedWith("Not face owner");
+    });
+  });
+
+  describe("migration", function () {
+    it("imports legacy ids for their recorded owners and skips existing ones", async function () {
+      await registry.connect(signers.alice).registerWatchFace("a1");
+
+      await registry.importWatchFaces(
+        ["a1", "b1", "a2"],
+        [signers.alice.address, signers.bob.address, signers.alice.address],
+      );
+
+      expect(await registry.getWatchFaceIds(0, 10)).to.deep.eq([
+        "a1",
+        "b1",
+        "a2",
+      ]);
+      expect(await registry.ownerOf("b1")).to.eq(signers.bob.address);
+      expect(
+        await registry.getOwnerWatchFaceCount(signers.alice.address),
+      ).to.eq(2);
+    });
+
+    it("is restricted to the owner and disabled once closed", async function () {
+      await expect(
+        registry
+          .connect(signers.alice)
+          .importWatchFaces(["b1"], [signers.bob.address]),
+      ).to.be.revertedWith("Not owner");
+      await expect(registry.importWatchFaces(["b1"], [])).to.be.revertedWith(
+        "Length mismatch",
+      );
+
+      await expect(registry.closeMigration()).to.emit(
+        registry,
+        "MigrationClosed",
+      );
+      await expect(
+        registry.importWatchFaces(["b1"], [signers.bob.address]),
+      ).to.be.revertedWith("Migration closed");
+    });
+  });
+});